@@ -0,0 +1,83 @@
+// public/asset-filters.js
+// Shared by the filter worker (browser) and the headless CLI commands (Bun).
+
+/**
+ * Splits the raw "exclude patterns" input into individual filters.
+ * @param {string} raw - Comma-separated strings or /regex/ patterns.
+ * @returns {Array<string>} - Trimmed, non-empty filters (regex strings are kept as strings).
+ */
+export function parseExcludePatterns(raw) {
+    return String(raw ?? '').split(',')
+        .map(p => p.trim())
+        .filter(p => p);
+}
+
+/**
+ * Filters assets based on minimum size and exclusion patterns.
+ * @template {{ name: string, size?: number }} T
+ * @param {Array<T>} allAssets - The full list of asset objects.
+ * @param {number} minSizeBytes - Minimum size in bytes to include.
+ * @param {Array<string|RegExp>} excludeFilters - Filters (strings or regex).
+ * @returns {Array<T>} - The filtered list of assets.
+ */
+export function filterAssets(allAssets, minSizeBytes, excludeFilters) {
+    if (!Array.isArray(allAssets)) return [];
+
+    return allAssets.filter(asset => {
+        if (typeof asset !== 'object' || asset === null || typeof asset.name !== 'string') {
+            console.warn("Filter: Skipping invalid asset object:", asset);
+            return false;
+        }
+        const size = asset.size ?? 0;
+        const name = asset.name;
+        let hidden = false;
+
+        if (size < minSizeBytes) hidden = true;
+
+        if (!hidden && excludeFilters.length > 0) {
+            for (const filter of excludeFilters) {
+                // Check if filter is a serialized RegExp string
+                if (typeof filter === 'string' && filter.startsWith('/') && filter.endsWith('/')) {
+                    try {
+                        const regex = new RegExp(filter.slice(1, -1));
+                        if (regex.test(name)) { hidden = true; break; }
+                    } catch (e) {
+                        console.warn('Filter: Invalid regex pattern:', filter);
+                    }
+                } else if (typeof filter === 'string') {
+                     if (name.includes(filter)) { hidden = true; break; }
+                 }
+                 // Note: Actual RegExp objects cannot be directly passed to workers,
+                 // so we handle string representations.
+            }
+        }
+        return !hidden;
+    });
+}
+
+/**
+ * Calculates the total size and percentage for each asset in a list.
+ * @template {{ size?: number }} T
+ * @param {Array<T>} assets - List of asset objects.
+ * @param {'size'|'gzipSize'|'brotliSize'} [sizeKey] - Size metric the total and percentages are based on (raw size by default).
+ * @returns {{processedAssets: Array<T & { percentage: number, size: number }>, totalSize: number}} - Assets with added 'percentage' property and the total size.
+ */
+export function calculatePercentages(assets, sizeKey = 'size') {
+    const totalSize = assets.reduce((sum, asset) => sum + (Number(asset[sizeKey]) || 0), 0);
+    const processedAssets = assets.map(asset => {
+        const sizeBytes = Number(asset[sizeKey]) || 0;
+        let percentage = 0;
+        if (totalSize > 0 && sizeBytes > 0) {
+            // Calculate percentage with 1 decimal place directly
+            percentage = Number(((sizeBytes / totalSize) * 100).toFixed(1));
+            // Ensure the percentage is between 0 and 100
+            percentage = Math.max(0, Math.min(100, percentage));
+        }
+        return {
+            ...asset,
+            percentage, // Store as number for better precision
+            size: Number(asset.size) || 0 // Ensure size is a number
+        };
+    });
+    return { processedAssets, totalSize };
+}
@@ -0,0 +1,105 @@
+// public/static-export.js
+// Inlined into files written by the `export` command. Answers the UI's /api/* requests from the data
+// embedded in the page, so the report works from disk without a server.
+(() => {
+    const data = JSON.parse(document.getElementById('bundle-data').textContent);
+    const workerSource = document.getElementById('bundle-worker').textContent;
+
+    // The filter worker is bundled with asset-filters.js, so it runs from a Blob URL without further imports
+    window.staticExport = {
+        workerUrl: URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' })),
+    };
+
+    const jsonResponse = (body, status = 200) => new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    });
+
+    // Same lookup order as the server: ID, then identifier, then name. Only the first `indexedCount`
+    // modules are top-level modules; the rest are inner modules of concatenated modules.
+    const lookups = new Map();
+    function findModuleIndex(compilation, key) {
+        let lookup = lookups.get(compilation);
+        if (!lookup) {
+            lookup = { byId: new Map(), byIdentifier: new Map(), byName: new Map() };
+            compilation.modules.slice(0, compilation.indexedCount).forEach((mod, index) => {
+                if (mod.id !== null && mod.id !== undefined && !lookup.byId.has(String(mod.id))) lookup.byId.set(String(mod.id), index);
+                if (mod.identifier && !lookup.byIdentifier.has(mod.identifier)) lookup.byIdentifier.set(mod.identifier, index);
+                if (mod.name && !lookup.byName.has(mod.name)) lookup.byName.set(mod.name, index);
+            });
+            lookups.set(compilation, lookup);
+        }
+        return lookup.byId.get(key) ?? lookup.byIdentifier.get(key) ?? lookup.byName.get(key);
+    }
+
+    // Asset module entries are module indexes, or `{ i, ...annotations }` with baseline and source map sizes
+    function getAssetModules(compilation, assetName) {
+        return (compilation.assetModules[assetName] ?? []).map(entry => {
+            if (typeof entry === 'number') return compilation.modules[entry];
+            const { i, ...annotations } = entry;
+            return { ...compilation.modules[i], ...annotations };
+        });
+    }
+
+    function getModuleDependencies(compilation, key) {
+        const index = findModuleIndex(compilation, key);
+        if (index === undefined) return null;
+        return (compilation.dependencies[index] ?? []).map(i => compilation.modules[i]);
+    }
+
+    function handleApiRequest(url) {
+        const name = url.searchParams.get('compilation');
+        const isAll = name === 'all';
+        const compilation = data.compilations[name || data.defaultCompilation];
+        if (!isAll && !compilation) {
+            return jsonResponse({ error: `Unknown compilation "${name}"`, compilations: Object.keys(data.compilations) }, 404);
+        }
+        const view = isAll ? data.all : compilation;
+        const [, , endpoint, encodedParam] = url.pathname.split('/');
+        const param = encodedParam === undefined ? '' : decodeURIComponent(encodedParam);
+
+        switch (endpoint) {
+            case 'config':
+                return jsonResponse(view.config);
+            case 'table':
+                return jsonResponse(view.table);
+            case 'duplicates':
+                return jsonResponse(view.duplicates);
+            case 'chunks':
+                return jsonResponse(view.chunks);
+            case 'entrypoints':
+                return jsonResponse(view.entrypoints);
+            case 'tree-shaking':
+                return jsonResponse(view.treeShaking);
+            case 'asset-details': {
+                // Strip the compilation prefix added by the merged view
+                const owner = isAll ? Object.keys(data.compilations).find(n => param.startsWith(`${n}/`)) : null;
+                const assetCompilation = isAll ? data.compilations[owner] : compilation;
+                const assetName = isAll && owner ? param.slice(owner.length + 1) : param;
+                if (!assetCompilation || !(assetName in assetCompilation.assetModules)) {
+                    return jsonResponse({ error: `Unknown asset "${param}"` }, 404);
+                }
+                return jsonResponse(getAssetModules(assetCompilation, assetName));
+            }
+            case 'module-dependencies': {
+                // Module IDs are only unique within a compilation, so the merged view takes the first match
+                const candidates = isAll ? Object.values(data.compilations) : [compilation];
+                for (const candidate of candidates) {
+                    const dependencies = getModuleDependencies(candidate, param);
+                    if (dependencies) return jsonResponse(dependencies);
+                }
+                return jsonResponse({ error: `Unknown module "${param}"` }, 404);
+            }
+            default:
+                return jsonResponse({ error: `"${url.pathname}" is not available in exported reports` }, 404);
+        }
+    }
+
+    const originalFetch = window.fetch.bind(window);
+    window.fetch = async (input, init) => {
+        if (typeof input === 'string' && input.startsWith('/api/')) {
+            return handleApiRequest(new URL(input, 'http://localhost'));
+        }
+        return originalFetch(input, init);
+    };
+})();
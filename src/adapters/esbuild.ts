@@ -0,0 +1,153 @@
+import type { WebpackChunkNative, WebpackModuleNative, WebpackReason, WebpackStatsNative } from '../stats.ts';
+import { assignIssuers, buildChunkGraph, createAsset, createChunk, createModule, createReason, getBaseName, uniqueNames } from './stats-builders.ts';
+
+// --- esbuild Metafile Interfaces ---
+// Written with `metafile: true` (or `--metafile=meta.json`), see https://esbuild.github.io/api/#metafile
+
+interface EsbuildImport {
+    path: string;
+    kind: string; // 'import-statement', 'require-call', 'dynamic-import', ...
+    external?: boolean;
+    original?: string; // The import specifier as written, before resolution
+}
+
+interface EsbuildInput {
+    bytes: number;
+    imports: EsbuildImport[];
+}
+
+interface EsbuildOutput {
+    bytes: number;
+    inputs: Record<string, { bytesInOutput: number }>;
+    imports: EsbuildImport[];
+    entryPoint?: string; // Set for entry points and for targets of dynamic imports
+    cssBundle?: string; // CSS file emitted next to a JS entry point
+}
+
+interface EsbuildMetafile {
+    inputs: Record<string, EsbuildInput>;
+    outputs: Record<string, EsbuildOutput>;
+}
+
+// esbuild import kinds as the reason types webpack reports for the same kind of import
+const REASON_TYPES: Record<string, string> = {
+    'import-statement': 'harmony import specifier',
+    'require-call': 'cjs require',
+    'dynamic-import': 'import()',
+    'require-resolve': 'require.resolve',
+    'import-rule': 'css @import',
+    'composes-from': 'css composes',
+    'url-token': 'new URL()',
+};
+
+function isEsbuildMetafile(raw: unknown): raw is EsbuildMetafile {
+    return typeof raw === 'object' && raw !== null
+        && 'inputs' in raw && typeof raw.inputs === 'object' && raw.inputs !== null
+        && 'outputs' in raw && typeof raw.outputs === 'object' && raw.outputs !== null;
+}
+
+// --- Conversion ---
+
+/**
+ * Converts an esbuild metafile into a single webpack compilation. Every output file except source maps is a
+ * chunk; entry points and the outputs they import statically are initial chunks, outputs only reached through
+ * `import()` are async chunks. Inputs become modules, sized by the bytes they contribute to the output.
+ */
+export function convertEsbuildMetafile(raw: unknown): WebpackStatsNative {
+    if (!isEsbuildMetafile(raw)) {
+        throw new Error("Invalid esbuild metafile: 'inputs' and 'outputs' objects not found.");
+    }
+    const { inputs, outputs } = raw;
+    const outputNames = Object.keys(outputs);
+    const chunkFiles = outputNames.filter(name => !name.endsWith('.map'));
+    const chunkIds = new Map(chunkFiles.map((name, index) => [name, index]));
+
+    // Outputs for `import()` targets carry an entryPoint too; so do the CSS files of JS entry points
+    const dynamicTargets = new Set(Object.values(inputs).flatMap(input =>
+        input.imports.filter(imp => imp.kind === 'dynamic-import').map(imp => imp.path)));
+    const cssBundles = new Set(chunkFiles.map(name => outputs[name]!.cssBundle).filter(name => name !== undefined));
+    const entryFiles = chunkFiles.filter(name => outputs[name]!.entryPoint && !dynamicTargets.has(outputs[name]!.entryPoint!) && !cssBundles.has(name));
+    const entryNames = uniqueNames(entryFiles.map(name => outputs[name]!.entryPoint!));
+
+    const imports = new Map(chunkFiles.map(name => {
+        const output = outputs[name]!;
+        const edges = output.imports
+            .filter(imp => !imp.external && chunkIds.has(imp.path))
+            .map(imp => ({ target: imp.path, dynamic: imp.kind === 'dynamic-import' }));
+        if (output.cssBundle && chunkIds.has(output.cssBundle)) edges.push({ target: output.cssBundle, dynamic: false });
+        return [name, edges];
+    }));
+    const { initialChunks, parents } = buildChunkGraph(chunkFiles, entryFiles, imports);
+    const initialFiles = new Set([...initialChunks.values()].flat());
+
+    // Reasons come from the inputs' imports
+    const reasonsByInput = new Map<string, WebpackReason[]>();
+    for (const [importer, input] of Object.entries(inputs)) {
+        for (const imp of input.imports) {
+            if (imp.external || !(imp.path in inputs)) continue;
+            const type = REASON_TYPES[imp.kind] ?? imp.kind;
+            const reasons = reasonsByInput.get(imp.path) ?? [];
+            reasons.push(createReason({ moduleId: importer, moduleIdentifier: importer, module: importer, moduleName: importer, type, userRequest: imp.original ?? imp.path }));
+            reasonsByInput.set(imp.path, reasons);
+        }
+    }
+    for (const name of entryFiles) {
+        const entryPoint = outputs[name]!.entryPoint!;
+        const reasons = reasonsByInput.get(entryPoint) ?? [];
+        reasons.push(createReason({ type: 'entry', userRequest: entryPoint, loc: entryNames.get(entryPoint)! }));
+        reasonsByInput.set(entryPoint, reasons);
+    }
+
+    // Only inputs that ended up in an output are modules; the rest were tree-shaken or type-only
+    const modulesByInput = new Map<string, WebpackModuleNative>();
+    for (const name of chunkFiles) {
+        for (const [inputPath, { bytesInOutput }] of Object.entries(outputs[name]!.inputs)) {
+            const mod = modulesByInput.get(inputPath) ?? createModule({
+                id: inputPath, identifier: inputPath, name: inputPath, size: 0, chunks: [],
+                reasons: reasonsByInput.get(inputPath) ?? [],
+            });
+            mod.size = Math.max(mod.size, bytesInOutput); // Code split across outputs is counted once
+            mod.chunks.push(chunkIds.get(name)!);
+            modulesByInput.set(inputPath, mod);
+        }
+    }
+    const inputImports = new Map(Object.entries(inputs).map(([inputPath, input]) => [inputPath, input.imports.map(imp => imp.path)]));
+    assignIssuers(modulesByInput, inputImports, entryFiles.map(name => outputs[name]!.entryPoint!));
+
+    const chunks: WebpackChunkNative[] = chunkFiles.map(name => {
+        const output = outputs[name]!;
+        const isEntry = entryFiles.includes(name);
+        const isDynamicTarget = !isEntry && output.entryPoint !== undefined && dynamicTargets.has(output.entryPoint);
+        return createChunk({
+            id: chunkIds.get(name)!,
+            names: isEntry ? [entryNames.get(output.entryPoint!)!] : isDynamicTarget ? [getBaseName(output.entryPoint!)] : [],
+            files: [name],
+            size: Object.values(output.inputs).reduce((sum, input) => sum + input.bytesInOutput, 0),
+            initial: initialFiles.has(name),
+            entry: isEntry,
+            parents: parents.get(name)!.map(parent => chunkIds.get(parent)!),
+            // Where the chunk is loaded with `import()`, as webpack reports origins
+            origins: isDynamicTarget
+                ? Object.entries(inputs).flatMap(([importer, input]) => input.imports
+                    .filter(imp => imp.kind === 'dynamic-import' && imp.path === output.entryPoint)
+                    .map(imp => ({ moduleName: importer, loc: '', request: imp.original ?? imp.path })))
+                : [],
+        });
+    });
+
+    return {
+        assets: outputNames.map(name => {
+            // Source maps have no chunk, like webpack's auxiliary files
+            const chunk = chunkIds.has(name) ? chunks[chunkIds.get(name)!] : undefined;
+            return createAsset({ name, size: outputs[name]!.bytes, chunks: chunk ? [chunk.id] : [], chunkNames: chunk?.names ?? [] });
+        }),
+        chunks,
+        modules: [...modulesByInput.values()],
+        entrypoints: Object.fromEntries(entryFiles.map(name => [entryNames.get(outputs[name]!.entryPoint!)!, {
+            chunks: initialChunks.get(name)!.map(file => chunkIds.get(file)!),
+            assets: initialChunks.get(name)!,
+        }])),
+        errors: [],
+        warnings: [],
+    };
+}
@@ -0,0 +1,65 @@
+import { convertEsbuildMetafile } from './esbuild.ts';
+import { convertRollupVisualizerData } from './rollup.ts';
+import { normalizeRspackStats } from './rspack.ts';
+
+// --- Input Adapters ---
+// Stats files of other bundlers are converted into the native webpack stats shape while loading,
+// so everything after getWebpackStatsData works on one model.
+
+export type StatsFormat = 'webpack' | 'rspack' | 'esbuild' | 'rollup';
+
+export interface StatsAdapter {
+    format: StatsFormat;
+    description: string; // What is being read, for log messages
+    detect: (head: string) => boolean; // Recognizes the format from the start of the file
+    streamed: boolean; // Parsed by the streaming stats parser; other formats are small enough for JSON.parse
+    convert?: (raw: unknown) => unknown; // Turns the parsed file into webpack stats (single or multi-compiler), or fixes it up in place and returns it
+}
+
+// In detection order; webpack accepts anything and comes last
+export const STATS_ADAPTERS: StatsAdapter[] = [
+    {
+        format: 'esbuild',
+        description: 'esbuild metafile',
+        detect: head => /^\s*\{\s*"inputs"\s*:/.test(head),
+        streamed: false,
+        convert: convertEsbuildMetafile,
+    },
+    {
+        format: 'rollup',
+        description: 'rollup-plugin-visualizer data',
+        detect: head => /^\s*\{\s*"version"\s*:\s*\d+\s*,\s*"tree"\s*:/.test(head),
+        streamed: false,
+        convert: convertRollupVisualizerData,
+    },
+    {
+        format: 'rspack',
+        description: 'Rspack stats file',
+        detect: head => /"rspackVersion"\s*:/.test(head),
+        streamed: true,
+        convert: normalizeRspackStats,
+    },
+    {
+        format: 'webpack',
+        description: 'native webpack stats file',
+        detect: () => true,
+        streamed: true,
+    },
+];
+
+export const STATS_FORMATS = STATS_ADAPTERS.map(adapter => adapter.format);
+
+// Detection only looks at the start of the file, so large stats files are not read twice
+export const FORMAT_DETECTION_BYTES = 64 * 1024;
+
+export function isStatsFormat(value: string): value is StatsFormat {
+    return (STATS_FORMATS as string[]).includes(value);
+}
+
+export function getStatsAdapter(format: StatsFormat): StatsAdapter {
+    return STATS_ADAPTERS.find(adapter => adapter.format === format)!;
+}
+
+export function detectStatsAdapter(head: string): StatsAdapter {
+    return STATS_ADAPTERS.find(adapter => adapter.detect(head))!;
+}
@@ -0,0 +1,143 @@
+import type { WebpackChunkNative, WebpackModuleNative, WebpackReason, WebpackStatsNative } from '../stats.ts';
+import { assignIssuers, buildChunkGraph, createAsset, createChunk, createModule, createReason, getBaseName, uniqueNames } from './stats-builders.ts';
+
+// --- rollup-plugin-visualizer Interfaces ---
+// Written by `visualizer({ template: 'raw-data' })` in Rollup and Vite builds
+
+interface VisualizerNodePart {
+    renderedLength: number; // Bytes the module contributes to the bundle, before minification by a later plugin
+    gzipLength: number;
+    brotliLength: number;
+    metaUid: string;
+}
+
+interface VisualizerNodeMeta {
+    id: string; // Module path relative to the project root
+    moduleParts: Record<string, string>; // Bundle file name -> node part UID
+    imported: { uid: string, dynamic?: boolean }[];
+    importedBy: { uid: string }[];
+    isEntry?: boolean;
+    isExternal?: boolean;
+}
+
+interface VisualizerData {
+    version: number;
+    nodeParts: Record<string, VisualizerNodePart>;
+    nodeMetas: Record<string, VisualizerNodeMeta>;
+    env?: { rollup?: string };
+}
+
+function isVisualizerData(raw: unknown): raw is VisualizerData {
+    return typeof raw === 'object' && raw !== null
+        && 'nodeParts' in raw && typeof raw.nodeParts === 'object' && raw.nodeParts !== null
+        && 'nodeMetas' in raw && typeof raw.nodeMetas === 'object' && raw.nodeMetas !== null;
+}
+
+// --- Conversion ---
+
+/**
+ * Converts rollup-plugin-visualizer raw data into a single webpack compilation. Every bundle file is a chunk
+ * and an asset; bundles with an entry module and the bundles they import statically are initial chunks.
+ * Sizes are rendered lengths, so minification done after Rollup's render step is not reflected.
+ */
+export function convertRollupVisualizerData(raw: unknown): WebpackStatsNative {
+    if (!isVisualizerData(raw)) {
+        throw new Error("Invalid rollup-plugin-visualizer data: 'nodeParts' and 'nodeMetas' objects not found. Use the visualizer's 'raw-data' template.");
+    }
+    const metas = Object.entries(raw.nodeMetas).filter(([, meta]) => !meta.isExternal);
+    const bundleFiles = [...new Set(metas.flatMap(([, meta]) => Object.keys(meta.moduleParts)))];
+    const chunkIds = new Map(bundleFiles.map((name, index) => [name, index]));
+    const renderedLength = (partUid: string) => raw.nodeParts[partUid]?.renderedLength ?? 0;
+
+    // Bundles are connected by the imports of the modules they contain
+    const imports = new Map(bundleFiles.map(name => [name, [] as { target: string, dynamic: boolean }[]]));
+    for (const [, meta] of metas) {
+        for (const { uid, dynamic } of meta.imported) {
+            const target = raw.nodeMetas[uid];
+            if (!target || target.isExternal) continue;
+            for (const from of Object.keys(meta.moduleParts)) {
+                for (const to of Object.keys(target.moduleParts)) {
+                    const edges = imports.get(from)!;
+                    if (from !== to && !edges.some(edge => edge.target === to && edge.dynamic === !!dynamic)) edges.push({ target: to, dynamic: !!dynamic });
+                }
+            }
+        }
+    }
+
+    const entryMetas = metas.filter(([, meta]) => meta.isEntry);
+    const entryNames = uniqueNames(entryMetas.map(([, meta]) => meta.id));
+    const entryBundles = new Map<string, string>(); // Bundle file -> entrypoint name
+    for (const [, meta] of entryMetas) {
+        for (const name of Object.keys(meta.moduleParts)) {
+            if (!entryBundles.has(name)) entryBundles.set(name, entryNames.get(meta.id)!);
+        }
+    }
+    const { initialChunks, parents } = buildChunkGraph(bundleFiles, [...entryBundles.keys()], imports);
+    const initialFiles = new Set([...initialChunks.values()].flat());
+
+    // Reasons come from the importers' `imported` lists, which are the only ones that record dynamic imports
+    const reasonsByUid = new Map<string, WebpackReason[]>();
+    for (const [, meta] of metas) {
+        for (const { uid, dynamic } of meta.imported) {
+            const reasons = reasonsByUid.get(uid) ?? [];
+            reasons.push(createReason({ moduleId: meta.id, moduleIdentifier: meta.id, module: meta.id, moduleName: meta.id, type: dynamic ? 'import()' : 'harmony import specifier' }));
+            reasonsByUid.set(uid, reasons);
+        }
+    }
+
+    const modulesByUid = new Map<string, WebpackModuleNative>(metas.map(([uid, meta]) => {
+        const reasons = reasonsByUid.get(uid) ?? [];
+        if (meta.isEntry) reasons.push(createReason({ type: 'entry', userRequest: meta.id, loc: entryNames.get(meta.id)! }));
+        return [uid, createModule({
+            id: meta.id, identifier: meta.id, name: meta.id,
+            // Modules split across bundles are counted once, by their largest part
+            size: Math.max(0, ...Object.values(meta.moduleParts).map(renderedLength)),
+            chunks: Object.keys(meta.moduleParts).map(name => chunkIds.get(name)!),
+            reasons,
+        })];
+    }));
+    const moduleImports = new Map(metas.map(([uid, meta]) => [uid, meta.imported.map(imp => imp.uid)]));
+    assignIssuers(modulesByUid, moduleImports, entryMetas.map(([uid]) => uid));
+
+    // Async bundles are named after the modules loaded into them with `import()`, as webpackChunkName would
+    const dynamicTargets = new Set(metas.flatMap(([, meta]) => meta.imported.filter(imp => imp.dynamic).map(imp => imp.uid)));
+    const bundleSizes = new Map<string, number>();
+    const chunkNames = new Map<string, string[]>(bundleFiles.map(name => [name, []]));
+    for (const [uid, meta] of metas) {
+        for (const [name, partUid] of Object.entries(meta.moduleParts)) {
+            bundleSizes.set(name, (bundleSizes.get(name) ?? 0) + renderedLength(partUid));
+            if (dynamicTargets.has(uid) && !entryBundles.has(name)) chunkNames.get(name)!.push(getBaseName(meta.id));
+        }
+    }
+
+    const chunks: WebpackChunkNative[] = bundleFiles.map(name => {
+        const entryName = entryBundles.get(name);
+        const bundleModules = metas.filter(([, meta]) => name in meta.moduleParts);
+        return createChunk({
+            id: chunkIds.get(name)!,
+            names: entryName ? [entryName] : chunkNames.get(name)!,
+            files: [name],
+            size: bundleSizes.get(name) ?? 0,
+            initial: initialFiles.has(name),
+            entry: entryName !== undefined,
+            parents: parents.get(name)!.map(parent => chunkIds.get(parent)!),
+            // Where the bundle is loaded with `import()`, as webpack reports origins
+            origins: bundleModules.flatMap(([uid, meta]) => (reasonsByUid.get(uid) ?? [])
+                .filter(reason => reason.type === 'import()')
+                .map(reason => ({ moduleName: reason.moduleName, loc: '', request: meta.id }))),
+        });
+    });
+
+    return {
+        version: raw.env?.rollup ? `rollup ${raw.env.rollup}` : undefined,
+        assets: chunks.map(chunk => createAsset({ name: chunk.files[0]!, size: chunk.size, chunks: [chunk.id], chunkNames: chunk.names })),
+        chunks,
+        modules: [...modulesByUid.values()],
+        entrypoints: Object.fromEntries([...initialChunks].map(([name, files]) => [entryBundles.get(name)!, {
+            chunks: files.map(file => chunkIds.get(file)!),
+            assets: files,
+        }])),
+        errors: [],
+        warnings: [],
+    };
+}
@@ -0,0 +1,28 @@
+import { getModuleIdKey } from '../module-index.ts';
+import type { WebpackModuleNative, WebpackStatsNative } from '../stats.ts';
+
+// --- Rspack Stats ---
+// Rspack writes webpack-compatible stats, so they go through the same streaming parser. The differences
+// that matter here are fixed up in place, which keeps the module indexes built while parsing.
+
+function normalizeModules(modules: WebpackModuleNative[] | undefined): WebpackModuleNative[] | undefined {
+    if (!Array.isArray(modules)) return modules;
+    const unique = [...new Set(modules)]; // Runtime modules listed twice under one identifier share one object after parsing
+    for (const mod of unique) {
+        // Runtime modules have an empty ID instead of none
+        if (getModuleIdKey(mod.id) === null) mod.id = null;
+        mod.modules = normalizeModules(mod.modules);
+    }
+    return unique;
+}
+
+function normalizeCompilation(stats: WebpackStatsNative) {
+    stats.modules = normalizeModules(stats.modules);
+    for (const chunk of stats.chunks ?? []) chunk.modules = normalizeModules(chunk.modules);
+    stats.children?.forEach(normalizeCompilation);
+}
+
+export function normalizeRspackStats(raw: unknown): unknown {
+    if (typeof raw === 'object' && raw !== null) normalizeCompilation(raw as WebpackStatsNative);
+    return raw;
+}
@@ -0,0 +1,88 @@
+import type { WebpackAssetNative, WebpackChunkNative, WebpackModuleNative, WebpackReason } from '../stats.ts';
+
+// --- Webpack Stats Builders ---
+// Adapters fill the fields other bundlers have no equivalent for with webpack's defaults.
+
+export function createAsset(fields: Pick<WebpackAssetNative, 'name' | 'size' | 'chunks' | 'chunkNames'>): WebpackAssetNative {
+    return { emitted: true, ...fields };
+}
+
+export function createChunk(fields: Pick<WebpackChunkNative, 'id' | 'names' | 'files' | 'size' | 'initial' | 'entry' | 'parents'> & Partial<WebpackChunkNative>): WebpackChunkNative {
+    return { rendered: true, extraAsync: false, hash: '', origins: [], ...fields };
+}
+
+export function createModule(fields: Pick<WebpackModuleNative, 'id' | 'identifier' | 'name' | 'size' | 'chunks'> & Partial<WebpackModuleNative>): WebpackModuleNative {
+    return {
+        index: 0, index2: 0, cacheable: true, built: true, optional: false, prefetched: false, assets: [],
+        issuer: null, issuerId: null, issuerName: null, failed: false, errors: 0, warnings: 0, reasons: [],
+        usedExports: true, providedExports: null, optimizationBailout: [], orphan: false, depth: 0,
+        ...fields,
+    };
+}
+
+export function createReason(fields: Pick<WebpackReason, 'type'> & Partial<WebpackReason>): WebpackReason {
+    return { moduleId: null, moduleIdentifier: null, module: null, moduleName: null, userRequest: '', loc: '', ...fields };
+}
+
+// Entry and chunk names are derived from file names: `src/pages/home.tsx` -> `home`
+export function getBaseName(filePath: string): string {
+    const fileName = filePath.slice(filePath.replace(/\\/g, '/').lastIndexOf('/') + 1);
+    const extensionIndex = fileName.lastIndexOf('.');
+    return extensionIndex > 0 ? fileName.slice(0, extensionIndex) : fileName;
+}
+
+// Names must be unique; a name that is taken falls back to the full path
+export function uniqueNames(paths: string[]): Map<string, string> {
+    const counts = new Map<string, number>();
+    for (const filePath of paths) counts.set(getBaseName(filePath), (counts.get(getBaseName(filePath)) ?? 0) + 1);
+    return new Map(paths.map(filePath => [filePath, counts.get(getBaseName(filePath))! > 1 ? filePath : getBaseName(filePath)]));
+}
+
+/**
+ * Splits bundler outputs into webpack's chunk model: every entry output plus the outputs it imports
+ * statically are initial chunks of that entrypoint; everything else is an async chunk whose parents are
+ * the outputs importing it.
+ */
+export function buildChunkGraph(
+    chunkIds: string[],
+    entryIds: string[],
+    imports: Map<string, { target: string, dynamic: boolean }[]>,
+): { initialChunks: Map<string, string[]>, parents: Map<string, string[]> } {
+    const initialChunks = new Map<string, string[]>(); // Entry chunk -> its initial chunks, entry chunk first
+    for (const entryId of entryIds) {
+        const reached = new Set([entryId]);
+        for (const chunkId of reached) {
+            for (const edge of imports.get(chunkId) ?? []) {
+                if (!edge.dynamic) reached.add(edge.target);
+            }
+        }
+        initialChunks.set(entryId, [...reached]);
+    }
+
+    const initial = new Set([...initialChunks.values()].flat());
+    const parents = new Map<string, string[]>(chunkIds.map(chunkId => [chunkId, []]));
+    for (const [importerId, edges] of imports) {
+        for (const { target } of edges) {
+            const targetParents = parents.get(target);
+            if (initial.has(target) || !targetParents || targetParents.includes(importerId) || target === importerId) continue;
+            targetParents.push(importerId);
+        }
+    }
+    return { initialChunks, parents };
+}
+
+// Sets issuer and depth breadth-first from the entry modules, as webpack assigns them while building
+export function assignIssuers(modules: Map<string, WebpackModuleNative>, imports: Map<string, string[]>, entryIds: string[]) {
+    const queue = entryIds.filter(id => modules.has(id));
+    const reached = new Set(queue);
+    for (let index = 0; index < queue.length; index++) {
+        const issuer = modules.get(queue[index]!)!;
+        for (const targetId of imports.get(queue[index]!) ?? []) {
+            const mod = modules.get(targetId);
+            if (!mod || reached.has(targetId)) continue;
+            reached.add(targetId);
+            queue.push(targetId);
+            Object.assign(mod, { issuer: issuer.identifier, issuerId: issuer.id, issuerName: issuer.name, depth: issuer.depth + 1 });
+        }
+    }
+}
@@ -0,0 +1,180 @@
+import { formatBytes, type WebpackStatsNative } from './stats.ts';
+
+// --- Budget Config Interfaces ---
+
+// Sizes are bytes or strings with a unit, e.g. 250000, "250kb", "1.5 MB" (1 KB = 1024 bytes, like formatBytes)
+export type BudgetSize = number | string;
+
+export interface AssetBudgetConfig {
+    pattern: string; // Glob (e.g. "*.js", "static/**/*.css") or /regex/
+    maxSize: BudgetSize;
+}
+
+export interface BudgetConfig {
+    total?: BudgetSize; // Sum of all assets
+    assets?: AssetBudgetConfig[]; // Applied to every matching asset individually
+    entrypoints?: Record<string, BudgetSize>; // Keyed by entrypoint name
+    chunks?: Record<string, BudgetSize>; // Keyed by chunk name
+}
+
+// --- Budget Result Interfaces ---
+
+export type BudgetKind = 'total' | 'asset' | 'entrypoint' | 'chunk';
+export type BudgetStatus = 'pass' | 'fail' | 'missing'; // 'missing': nothing in the stats matched the budget
+
+export interface BudgetResult {
+    kind: BudgetKind;
+    budget: string; // Pattern or name from the config
+    target: string | null; // Matched asset/entrypoint/chunk name
+    maxSize: number;
+    actualSize: number | null;
+    status: BudgetStatus;
+}
+
+// --- Config Loading ---
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+export function parseBudgetSize(value: BudgetSize): number {
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return value;
+    if (typeof value === 'string') {
+        const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+        if (match) return Math.round(Number(match[1]) * SIZE_UNITS[match[2] ?? 'b']!);
+    }
+    throw new Error(`Invalid budget config: "${value}" is not a valid size (use bytes or e.g. "250kb", "1.5mb").`);
+}
+
+export async function loadBudgetConfig(configPath: string): Promise<BudgetConfig> {
+    const configFile = Bun.file(configPath);
+    if (!(await configFile.exists())) {
+        throw new Error(`Budget config not found at ${configPath}`);
+    }
+
+    let config: unknown;
+    try {
+        config = await configFile.json();
+    } catch (error) {
+        throw new Error(`Invalid budget config: could not parse ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        throw new Error("Invalid budget config: expected a JSON object.");
+    }
+
+    const budgetConfig = config as BudgetConfig;
+    // Validate eagerly so a typo fails the check instead of silently passing
+    if (budgetConfig.total !== undefined) parseBudgetSize(budgetConfig.total);
+    if (budgetConfig.assets !== undefined) {
+        if (!Array.isArray(budgetConfig.assets)) throw new Error("Invalid budget config: 'assets' must be an array.");
+        for (const assetBudget of budgetConfig.assets) {
+            if (typeof assetBudget?.pattern !== 'string') throw new Error("Invalid budget config: every asset budget needs a 'pattern' string.");
+            createAssetMatcher(assetBudget.pattern);
+            parseBudgetSize(assetBudget.maxSize);
+        }
+    }
+    for (const key of ['entrypoints', 'chunks'] as const) {
+        const budgets = budgetConfig[key];
+        if (budgets === undefined) continue;
+        if (typeof budgets !== 'object' || budgets === null || Array.isArray(budgets)) {
+            throw new Error(`Invalid budget config: '${key}' must be an object of name -> size.`);
+        }
+        for (const size of Object.values(budgets)) parseBudgetSize(size);
+    }
+    return budgetConfig;
+}
+
+// /regex/ patterns use the same syntax as the exclude filter; everything else is a glob
+function createAssetMatcher(pattern: string): (name: string) => boolean {
+    if (pattern.length > 1 && pattern.startsWith('/') && pattern.endsWith('/')) {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(pattern.slice(1, -1));
+        } catch (error) {
+            throw new Error(`Invalid budget config: bad regex ${pattern}`);
+        }
+        return name => regex.test(name);
+    }
+    const glob = new Bun.Glob(pattern);
+    return name => glob.match(name);
+}
+
+// --- Evaluation ---
+
+// Entrypoint assets are plain names in webpack 4 and { name, size } objects in webpack 5
+function getEntrypointAssetNames(assets: (string | { name: string })[]): string[] {
+    return assets.map(asset => typeof asset === 'string' ? asset : asset.name);
+}
+
+function toResult(kind: BudgetKind, budget: string, target: string | null, maxSize: number, actualSize: number | null): BudgetResult {
+    let status: BudgetStatus = 'missing';
+    if (actualSize !== null) status = actualSize > maxSize ? 'fail' : 'pass';
+    return { kind, budget, target, maxSize, actualSize, status };
+}
+
+export function evaluateBudgets(statsData: WebpackStatsNative, config: BudgetConfig): BudgetResult[] {
+    const results: BudgetResult[] = [];
+    const assetSizes = new Map(statsData.assets.map(a => [a.name, a.size ?? 0]));
+    const sumAssets = (names: Iterable<string>) => {
+        let total = 0;
+        for (const name of new Set(names)) total += assetSizes.get(name) ?? 0;
+        return total;
+    };
+
+    if (config.total !== undefined) {
+        results.push(toResult('total', 'total', null, parseBudgetSize(config.total), sumAssets(assetSizes.keys())));
+    }
+
+    for (const assetBudget of config.assets ?? []) {
+        const maxSize = parseBudgetSize(assetBudget.maxSize);
+        const matches = createAssetMatcher(assetBudget.pattern);
+        const matchedAssets = statsData.assets.filter(a => matches(a.name));
+        if (matchedAssets.length === 0) {
+            results.push(toResult('asset', assetBudget.pattern, null, maxSize, null));
+        }
+        for (const asset of matchedAssets) {
+            results.push(toResult('asset', assetBudget.pattern, asset.name, maxSize, asset.size ?? 0));
+        }
+    }
+
+    for (const [name, size] of Object.entries(config.entrypoints ?? {})) {
+        const entrypoint = statsData.entrypoints?.[name];
+        const actualSize = entrypoint ? sumAssets(getEntrypointAssetNames(entrypoint.assets)) : null;
+        results.push(toResult('entrypoint', name, entrypoint ? name : null, parseBudgetSize(size), actualSize));
+    }
+
+    for (const [name, size] of Object.entries(config.chunks ?? {})) {
+        const chunk = statsData.chunks?.find(c => c.names.includes(name));
+        const actualSize = chunk ? sumAssets(chunk.files) : null;
+        results.push(toResult('chunk', name, chunk ? name : null, parseBudgetSize(size), actualSize));
+    }
+
+    return results;
+}
+
+// --- Text Output ---
+
+function describeBudget(result: BudgetResult): string {
+    if (result.kind === 'total') return 'total';
+    const target = result.target && result.target !== result.budget ? ` (${result.target})` : '';
+    return `${result.kind} ${result.budget}${target}`;
+}
+
+export function formatBudgetResults(results: BudgetResult[]): string {
+    if (results.length === 0) return 'No budgets configured.';
+
+    const lines: string[] = [];
+    const failed = results.filter(r => r.status === 'fail');
+    const missing = results.filter(r => r.status === 'missing');
+
+    for (const result of failed) {
+        const overBy = (result.actualSize ?? 0) - result.maxSize;
+        lines.push(`FAIL  ${describeBudget(result)}: ${formatBytes(result.actualSize ?? 0)} > ${formatBytes(result.maxSize)} (over by ${formatBytes(overBy)})`);
+    }
+    for (const result of missing) {
+        lines.push(`SKIP  ${describeBudget(result)}: nothing in the stats file matched`);
+    }
+
+    const passedCount = results.length - failed.length - missing.length;
+    if (lines.length > 0) lines.push('');
+    lines.push(`${failed.length} failed, ${passedCount} passed, ${missing.length} skipped.`);
+    return lines.join('\n');
+}
@@ -0,0 +1,203 @@
+import type { WebpackChunkNative, WebpackModuleNative, WebpackStatsNative } from './stats.ts';
+
+// --- Chunk & Entrypoint Interfaces ---
+
+export interface ChunkModule {
+    id: number | string | null;
+    identifier: string;
+    name: string;
+    size: number;
+}
+
+export interface ChunkSummary {
+    id: string; // Chunk IDs are stringified so numeric and named IDs compare equal
+    label: string; // Chunk names, or `chunk <id>` for unnamed chunks
+    files: string[];
+    size: number; // Download cost: sum of the chunk's files
+    moduleSize: number; // Sum of the chunk's modules, before minification
+    initial: boolean; // Loaded up front by an entrypoint
+    entry: boolean; // Contains the webpack runtime
+    parents: string[];
+    children: string[]; // Chunks that list this chunk as a parent
+    entrypoints: string[]; // Entrypoints that load this chunk up front
+    origins: string[]; // Where the chunk is requested, e.g. `./src/router.js 12:4-30 ./pages/home`
+    moduleCount: number;
+    modules: ChunkModule[]; // Largest first, at most TOP_CHUNK_MODULES
+}
+
+// Async chunk in an entrypoint's tree; a chunk reachable along several paths is expanded only once
+export interface AsyncChunkNode {
+    chunkId: string;
+    repeated: boolean; // Already shown closer to the entrypoint
+    children: AsyncChunkNode[];
+}
+
+export interface EntrypointSummary {
+    name: string;
+    assets: { name: string, size: number }[];
+    initialSize: number; // Sum of the entrypoint's assets
+    sharedSize: number; // Part of initialSize in chunks that other entrypoints load too
+    entryOnlySize: number; // initialSize - sharedSize
+    initialChunks: { chunkId: string, sharedWith: string[] }[]; // sharedWith lists the other entrypoints
+    asyncChunks: AsyncChunkNode[]; // Chunks whose parents include an initial chunk, and their descendants
+    asyncSize: number; // Sum of every async chunk reachable from the entrypoint, counted once
+}
+
+export interface ChunkAnalysis {
+    chunks: ChunkSummary[]; // Largest first
+    entrypoints: EntrypointSummary[]; // Largest initial size first
+}
+
+const TOP_CHUNK_MODULES = 25;
+
+// --- Helpers ---
+
+function getChunkLabel(chunk: WebpackChunkNative): string {
+    return chunk.names.length > 0 ? chunk.names.join(', ') : `chunk ${chunk.id}`;
+}
+
+// Origins are untyped in the stats; keep the requesting module, location and request
+function formatOrigins(origins: unknown[] | undefined): string[] {
+    const formatted = new Set<string>();
+    for (const origin of origins ?? []) {
+        if (typeof origin !== 'object' || origin === null) continue;
+        const { moduleName, loc, request } = origin as { moduleName?: unknown, loc?: unknown, request?: unknown };
+        const text = [moduleName, loc, request].filter(part => typeof part === 'string' && part).join(' ');
+        if (text) formatted.add(text);
+    }
+    return [...formatted];
+}
+
+// Modules per chunk ID, from the chunks' own module lists or, when those are missing, from the modules' `chunks`
+function getModulesByChunk(statsData: WebpackStatsNative): Map<string, WebpackModuleNative[]> {
+    const modulesByChunk = new Map<string, WebpackModuleNative[]>();
+    for (const chunk of statsData.chunks ?? []) {
+        if (chunk.modules && chunk.modules.length > 0) modulesByChunk.set(String(chunk.id), chunk.modules);
+    }
+    if (modulesByChunk.size > 0) return modulesByChunk;
+
+    for (const mod of statsData.modules ?? []) {
+        for (const chunkId of mod.chunks ?? []) {
+            const list = modulesByChunk.get(String(chunkId));
+            if (list) list.push(mod);
+            else modulesByChunk.set(String(chunkId), [mod]);
+        }
+    }
+    return modulesByChunk;
+}
+
+// Entrypoints from the stats, or one per entry chunk for stats generated without `entrypoints`
+function getEntrypoints(statsData: WebpackStatsNative): { name: string, chunkIds: string[], assetNames: string[] }[] {
+    if (statsData.entrypoints && Object.keys(statsData.entrypoints).length > 0) {
+        return Object.entries(statsData.entrypoints).map(([name, entrypoint]) => ({
+            name,
+            chunkIds: (entrypoint.chunks ?? []).map(String),
+            // Entrypoint assets are plain names in webpack 4 and { name, size } objects in webpack 5
+            assetNames: (entrypoint.assets ?? []).map(asset => typeof asset === 'string' ? asset : asset.name),
+        }));
+    }
+    return (statsData.chunks ?? []).filter(chunk => chunk.entry).map(chunk => ({
+        name: chunk.names[0] ?? `chunk ${chunk.id}`,
+        chunkIds: [String(chunk.id)],
+        assetNames: chunk.files,
+    }));
+}
+
+// --- Analysis ---
+
+/**
+ * Summarizes every chunk and, per entrypoint, what it downloads up front (split into chunks shared with
+ * other entrypoints and chunks only it loads) and which async chunks it can load later, following `parents`.
+ */
+export function analyzeChunks(statsData: WebpackStatsNative): ChunkAnalysis {
+    const assetSizes = new Map(statsData.assets.map(asset => [asset.name, asset.size ?? 0]));
+    const sumAssets = (names: Iterable<string>) => {
+        let total = 0;
+        for (const name of new Set(names)) total += assetSizes.get(name) ?? 0;
+        return total;
+    };
+
+    const entrypoints = getEntrypoints(statsData);
+    const entrypointsByChunk = new Map<string, string[]>();
+    for (const entrypoint of entrypoints) {
+        for (const chunkId of entrypoint.chunkIds) {
+            entrypointsByChunk.set(chunkId, [...(entrypointsByChunk.get(chunkId) ?? []), entrypoint.name]);
+        }
+    }
+
+    const childrenByChunk = new Map<string, string[]>();
+    for (const chunk of statsData.chunks ?? []) {
+        for (const parentId of chunk.parents ?? []) {
+            childrenByChunk.set(String(parentId), [...(childrenByChunk.get(String(parentId)) ?? []), String(chunk.id)]);
+        }
+    }
+
+    const modulesByChunk = getModulesByChunk(statsData);
+    const chunks: ChunkSummary[] = (statsData.chunks ?? []).map(chunk => {
+        const id = String(chunk.id);
+        const modules = [...(modulesByChunk.get(id) ?? [])].sort((a, b) => (b.size ?? 0) - (a.size ?? 0));
+        return {
+            id,
+            label: getChunkLabel(chunk),
+            files: chunk.files ?? [],
+            size: sumAssets(chunk.files ?? []),
+            moduleSize: chunk.size ?? modules.reduce((sum, mod) => sum + (mod.size ?? 0), 0),
+            initial: chunk.initial === true,
+            entry: chunk.entry === true,
+            parents: (chunk.parents ?? []).map(String),
+            children: childrenByChunk.get(id) ?? [],
+            entrypoints: entrypointsByChunk.get(id) ?? [],
+            origins: formatOrigins(chunk.origins),
+            moduleCount: modules.length,
+            modules: modules.slice(0, TOP_CHUNK_MODULES).map(mod => ({ id: mod.id ?? null, identifier: mod.identifier, name: mod.name || mod.identifier, size: mod.size ?? 0 })),
+        };
+    });
+    const chunksById = new Map(chunks.map(chunk => [chunk.id, chunk]));
+
+    const entrypointSummaries = entrypoints.map(entrypoint => {
+        const initialChunkIds = new Set(entrypoint.chunkIds);
+        const initialChunks = entrypoint.chunkIds.map(chunkId => ({
+            chunkId,
+            sharedWith: (entrypointsByChunk.get(chunkId) ?? []).filter(name => name !== entrypoint.name),
+        }));
+        const sharedFiles = initialChunks
+            .filter(chunk => chunk.sharedWith.length > 0)
+            .flatMap(chunk => chunksById.get(chunk.chunkId)?.files ?? []);
+        const initialSize = sumAssets(entrypoint.assetNames);
+        // Only files that belong to the entrypoint count, so the split always adds up to initialSize
+        const sharedSize = sumAssets(sharedFiles.filter(file => entrypoint.assetNames.includes(file)));
+
+        // Breadth-first, so a chunk loaded along several paths is expanded where it is closest to the entrypoint
+        const seen = new Set<string>(initialChunkIds);
+        const toNodes = (chunkIds: Iterable<string>): AsyncChunkNode[] => [...chunkIds]
+            .filter(chunkId => !chunksById.get(chunkId)?.initial)
+            .map(chunkId => {
+                const repeated = seen.has(chunkId);
+                seen.add(chunkId);
+                return { chunkId, repeated, children: [] };
+            });
+        const asyncChunks = toNodes(new Set(entrypoint.chunkIds.flatMap(chunkId => childrenByChunk.get(chunkId) ?? [])));
+        const queue = asyncChunks.filter(node => !node.repeated);
+        for (let index = 0; index < queue.length; index++) {
+            const node = queue[index]!;
+            node.children = toNodes(childrenByChunk.get(node.chunkId) ?? []);
+            queue.push(...node.children.filter(child => !child.repeated));
+        }
+
+        return {
+            name: entrypoint.name,
+            assets: [...new Set(entrypoint.assetNames)].map(name => ({ name, size: assetSizes.get(name) ?? 0 })),
+            initialSize,
+            sharedSize,
+            entryOnlySize: initialSize - sharedSize,
+            initialChunks,
+            asyncChunks,
+            asyncSize: queue.reduce((sum, node) => sum + (chunksById.get(node.chunkId)?.size ?? 0), 0),
+        };
+    });
+
+    return {
+        chunks: chunks.sort((a, b) => b.size - a.size || b.moduleSize - a.moduleSize),
+        entrypoints: entrypointSummaries.sort((a, b) => b.initialSize - a.initialSize),
+    };
+}
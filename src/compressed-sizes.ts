@@ -0,0 +1,111 @@
+import { existsSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { brotliCompress, constants as zlibConstants, gzip } from 'node:zlib';
+
+const gzipAsync = promisify(gzip);
+const brotliCompressAsync = promisify(brotliCompress);
+
+export interface CompressedSizes {
+    gzip: number;
+    brotli: number;
+}
+
+// Cache entries are keyed by absolute file path and invalidated when the file's mtime or size changes
+interface CacheEntry extends CompressedSizes {
+    mtimeMs: number;
+    size: number;
+}
+
+const CACHE_FILE_PATH = path.join(os.tmpdir(), 'webpack-bundle-visualizer', 'compressed-sizes.json');
+
+// Files compressed at the same time; zlib runs them on the libuv thread pool, which has 4 threads by default
+const COMPRESSION_CONCURRENCY = 4;
+
+async function readCache(cacheFilePath: string): Promise<Record<string, CacheEntry>> {
+    try {
+        const cache = await Bun.file(cacheFilePath).json();
+        return typeof cache === 'object' && cache !== null ? cache : {};
+    } catch {
+        return {}; // Missing or corrupt cache: start over
+    }
+}
+
+// Same settings as the usual production setups (compression-webpack-plugin, nginx gzip_static)
+async function compressFile(filePath: string): Promise<CompressedSizes> {
+    const content = new Uint8Array(await Bun.file(filePath).arrayBuffer());
+    const [gzipped, brotlied] = await Promise.all([
+        gzipAsync(content, { level: 9 }),
+        brotliCompressAsync(content, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: zlibConstants.BROTLI_MAX_QUALITY } }),
+    ]);
+    return { gzip: gzipped.byteLength, brotli: brotlied.byteLength };
+}
+
+// Hashed asset names change with every build, so entries of deleted files are dropped instead of piling up
+function pruneCache(cache: Record<string, CacheEntry>): number {
+    let prunedCount = 0;
+    for (const filePath of Object.keys(cache)) {
+        if (!existsSync(filePath)) {
+            delete cache[filePath];
+            prunedCount++;
+        }
+    }
+    return prunedCount;
+}
+
+/**
+ * Computes gzip and brotli sizes of the emitted asset files under `outputDir`.
+ * Assets whose file does not exist are left out of the result.
+ */
+export async function getCompressedSizes(outputDir: string, assetNames: string[], log: (message: string) => void = console.log, cacheFilePath = CACHE_FILE_PATH): Promise<Map<string, CompressedSizes>> {
+    const startTime = performance.now();
+    const cache = await readCache(cacheFilePath);
+    const result = new Map<string, CompressedSizes>();
+    let computedCount = 0;
+    let missingCount = 0;
+
+    const addAssetSizes = async (assetName: string): Promise<void> => {
+        // Asset names may carry a query string, e.g. `main.js?v=3`
+        const filePath = path.resolve(outputDir, assetName.split('?')[0]!);
+        const file = Bun.file(filePath);
+        if (!(await file.exists())) {
+            missingCount++;
+            return;
+        }
+
+        const { mtimeMs, size } = await file.stat();
+        const cached = cache[filePath];
+        if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+            result.set(assetName, { gzip: cached.gzip, brotli: cached.brotli });
+            return;
+        }
+
+        const sizes = await compressFile(filePath);
+        cache[filePath] = { ...sizes, mtimeMs, size };
+        result.set(assetName, sizes);
+        computedCount++;
+    };
+
+    // A few workers take assets off a shared queue, so large outputs are not all read into memory at once
+    const queue = [...assetNames];
+    const worker = async (): Promise<void> => {
+        for (let assetName = queue.shift(); assetName !== undefined; assetName = queue.shift()) {
+            await addAssetSizes(assetName);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(COMPRESSION_CONCURRENCY, queue.length) }, worker));
+
+    const prunedCount = pruneCache(cache);
+    if (computedCount > 0 || prunedCount > 0) {
+        try {
+            await Bun.write(cacheFilePath, JSON.stringify(cache));
+        } catch (error) {
+            console.warn(`Could not write compressed size cache to ${cacheFilePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    const elapsed = Math.round(performance.now() - startTime);
+    log(`Compressed sizes for ${result.size} assets in ${outputDir} (${computedCount} computed, ${result.size - computedCount} cached, ${missingCount} missing) in ${elapsed}ms.`);
+    return result;
+}
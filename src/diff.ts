@@ -0,0 +1,247 @@
+import { formatBytes, getModulesForAsset, type WebpackModuleNative, type WebpackStatsNative } from './stats.ts';
+
+// --- Diff Interfaces ---
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface AssetDiff {
+    name: string; // Head name if present, otherwise the base name
+    baseName: string | null;
+    headName: string | null;
+    status: DiffStatus;
+    baseSize: number;
+    headSize: number;
+    delta: number; // headSize - baseSize
+}
+
+export interface ModuleDiff {
+    name: string;
+    identifier: string | null; // Head identifier if present, otherwise the base identifier
+    status: DiffStatus;
+    baseSize: number;
+    headSize: number;
+    delta: number;
+}
+
+export interface StatsDiff {
+    baseTotalSize: number;
+    headTotalSize: number;
+    totalDelta: number;
+    assets: AssetDiff[]; // Sorted by absolute delta (descending)
+    modules: ModuleDiff[]; // Only added/removed/changed modules, sorted by absolute delta
+}
+
+// --- Matching Helpers ---
+
+// Content hashes are segments between separators, e.g. `main.3fa2.js` or `vendors-9bc1e0.js` (webpack hex),
+// `chunk-PVGQXVTU.js` (esbuild base32) or `index-B2xHk9aZ.js` (Rollup/Vite base64url).
+// Hex runs shorter than 8 characters need a digit, and other runs must not be all lowercase letters,
+// which keeps plain words such as `face`, `added` or `polyfills` from being treated as hashes.
+const CONTENT_HASH_PATTERNS = [
+    // Rollup/Vite hashes may themselves contain `-` or `_`, so take the 8 characters before the extension
+    /(?<=[.\-_~])(?![a-z_-]+\.)[A-Za-z0-9_-]{8}(?=(?:\.[A-Za-z0-9]+)+$)/g,
+    /(?<=[.\-_~])(?:(?=[a-fA-F]*\d)[0-9a-fA-F]{4,}|[0-9a-fA-F]{8,}|(?![a-z]+(?:[.\-_~]|$))[A-Za-z0-9]{8,})(?=[.\-_~]|$)/g,
+];
+
+// Webpack chunk names such as `src_pages_Home_tsx.js` or `main-Settings.js` also fit the patterns above.
+// Random hashes are told apart by being hex, containing a digit, being all uppercase (esbuild)
+// or switching from lower to upper case more than once (`BeQwLVJA`), which capitalized words don't.
+function isContentHash(segment: string): boolean {
+    return /^[0-9a-fA-F]+$/.test(segment) || /\d/.test(segment) || !/[a-z]/.test(segment)
+        || (segment.match(/[a-z][A-Z]/g)?.length ?? 0) > 1;
+}
+
+// Replace content hashes in an asset name so the same asset matches across builds
+export function normalizeAssetName(name: string): string {
+    return CONTENT_HASH_PATTERNS.reduce((normalized, pattern) => normalized.replace(pattern, segment => isContentHash(segment) ? '[hash]' : segment), name);
+}
+
+// Modules are matched by their (project relative) name, which stays stable across machines,
+// unlike the absolute `identifier`.
+function getModuleKey(mod: WebpackModuleNative): string {
+    return mod.name || mod.identifier;
+}
+
+function getStatus(baseSize: number, headSize: number): DiffStatus {
+    return baseSize === headSize ? 'unchanged' : 'changed';
+}
+
+function byAbsoluteDelta(a: { delta: number }, b: { delta: number }): number {
+    return Math.abs(b.delta) - Math.abs(a.delta);
+}
+
+/**
+ * Pairs base assets with head assets. Exact names are matched first; the remaining assets are
+ * matched by their hash-normalized name, but only when that name is unambiguous on both sides.
+ * @returns Map of head asset name -> base asset name (unmatched head assets are absent).
+ */
+export function matchAssets(baseNames: string[], headNames: string[]): Map<string, string> {
+    const matches = new Map<string, string>();
+    const baseSet = new Set(baseNames);
+    const unmatchedBase: string[] = [];
+    const unmatchedHead: string[] = [];
+
+    for (const name of headNames) {
+        if (baseSet.has(name)) matches.set(name, name);
+        else unmatchedHead.push(name);
+    }
+    for (const name of baseNames) {
+        if (!matches.has(name)) unmatchedBase.push(name);
+    }
+
+    const groupByNormalized = (names: string[]) => {
+        const groups = new Map<string, string[]>();
+        for (const name of names) {
+            const key = normalizeAssetName(name);
+            const group = groups.get(key);
+            if (group) group.push(name);
+            else groups.set(key, [name]);
+        }
+        return groups;
+    };
+    const baseGroups = groupByNormalized(unmatchedBase);
+    const headGroups = groupByNormalized(unmatchedHead);
+
+    for (const [key, headGroup] of headGroups) {
+        const baseGroup = baseGroups.get(key);
+        if (baseGroup?.length === 1 && headGroup.length === 1) {
+            matches.set(headGroup[0]!, baseGroup[0]!);
+        }
+    }
+    return matches;
+}
+
+// --- Diff Computation ---
+
+export function diffModules(baseModules: WebpackModuleNative[], headModules: WebpackModuleNative[]): ModuleDiff[] {
+    const baseByKey = new Map<string, WebpackModuleNative>();
+    for (const mod of baseModules) baseByKey.set(getModuleKey(mod), mod);
+
+    const result: ModuleDiff[] = [];
+    const seen = new Set<string>();
+    for (const mod of headModules) {
+        const key = getModuleKey(mod);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const baseMod = baseByKey.get(key);
+        const headSize = mod.size ?? 0;
+        const baseSize = baseMod?.size ?? 0;
+        result.push({
+            name: key,
+            identifier: mod.identifier ?? null,
+            status: baseMod ? getStatus(baseSize, headSize) : 'added',
+            baseSize,
+            headSize,
+            delta: headSize - baseSize,
+        });
+    }
+    for (const [key, baseMod] of baseByKey) {
+        if (seen.has(key)) continue;
+        const baseSize = baseMod.size ?? 0;
+        result.push({
+            name: key,
+            identifier: baseMod.identifier ?? null,
+            status: 'removed',
+            baseSize,
+            headSize: 0,
+            delta: -baseSize,
+        });
+    }
+    return result.sort(byAbsoluteDelta);
+}
+
+export function diffStats(base: WebpackStatsNative, head: WebpackStatsNative): StatsDiff {
+    const baseAssetsByName = new Map(base.assets.map(a => [a.name, a]));
+    const matches = matchAssets(base.assets.map(a => a.name), head.assets.map(a => a.name));
+    const matchedBaseNames = new Set(matches.values());
+
+    const assets: AssetDiff[] = [];
+    for (const headAsset of head.assets) {
+        const baseName = matches.get(headAsset.name) ?? null;
+        const baseAsset = baseName !== null ? baseAssetsByName.get(baseName) : undefined;
+        const headSize = headAsset.size ?? 0;
+        const baseSize = baseAsset?.size ?? 0;
+        assets.push({
+            name: headAsset.name,
+            baseName,
+            headName: headAsset.name,
+            status: baseAsset ? getStatus(baseSize, headSize) : 'added',
+            baseSize,
+            headSize,
+            delta: headSize - baseSize,
+        });
+    }
+    for (const baseAsset of base.assets) {
+        if (matchedBaseNames.has(baseAsset.name)) continue;
+        const baseSize = baseAsset.size ?? 0;
+        assets.push({
+            name: baseAsset.name,
+            baseName: baseAsset.name,
+            headName: null,
+            status: 'removed',
+            baseSize,
+            headSize: 0,
+            delta: -baseSize,
+        });
+    }
+
+    const baseTotalSize = base.assets.reduce((sum, a) => sum + (a.size ?? 0), 0);
+    const headTotalSize = head.assets.reduce((sum, a) => sum + (a.size ?? 0), 0);
+
+    return {
+        baseTotalSize,
+        headTotalSize,
+        totalDelta: headTotalSize - baseTotalSize,
+        assets: assets.sort(byAbsoluteDelta),
+        modules: diffModules(base.modules ?? [], head.modules ?? []).filter(m => m.status !== 'unchanged'),
+    };
+}
+
+// Module diff for a single head asset against the base asset it was matched with
+export function diffAssetModules(base: WebpackStatsNative, head: WebpackStatsNative, stats: StatsDiff, headAssetName: string): ModuleDiff[] {
+    const assetDiff = stats.assets.find(a => a.headName === headAssetName);
+    const baseModules = assetDiff?.baseName ? getModulesForAsset(base, assetDiff.baseName) : [];
+    return diffModules(baseModules, getModulesForAsset(head, headAssetName));
+}
+
+// --- Text Output ---
+
+export function formatDelta(delta: number): string {
+    if (delta === 0) return '±0 Bytes';
+    return `${delta > 0 ? '+' : '-'}${formatBytes(Math.abs(delta))}`;
+}
+
+function formatPercentChange(baseSize: number, delta: number): string {
+    if (baseSize === 0) return delta === 0 ? '0%' : 'new';
+    const percentage = (delta / baseSize) * 100;
+    return `${percentage > 0 ? '+' : ''}${percentage.toFixed(1)}%`;
+}
+
+export function formatStatsDiff(diff: StatsDiff, topModules: number): string {
+    const lines: string[] = [];
+    lines.push(`Total: ${formatBytes(diff.baseTotalSize)} -> ${formatBytes(diff.headTotalSize)} (${formatDelta(diff.totalDelta)}, ${formatPercentChange(diff.baseTotalSize, diff.totalDelta)})`);
+
+    const sections: [string, DiffStatus][] = [['Changed', 'changed'], ['Added', 'added'], ['Removed', 'removed']];
+    for (const [label, status] of sections) {
+        const assets = diff.assets.filter(a => a.status === status);
+        if (assets.length === 0) continue;
+        lines.push('', `${label} assets (${assets.length}):`);
+        for (const asset of assets) {
+            const renamed = status === 'changed' && asset.baseName !== asset.headName ? ` (was ${asset.baseName})` : '';
+            lines.push(`  ${formatDelta(asset.delta).padStart(14)}  ${asset.name}${renamed}  [${formatBytes(asset.baseSize)} -> ${formatBytes(asset.headSize)}]`);
+        }
+    }
+
+    if (diff.modules.length > 0) {
+        const shown = diff.modules.slice(0, topModules);
+        lines.push('', `Module changes (${diff.modules.length}${shown.length < diff.modules.length ? `, showing top ${shown.length}` : ''}):`);
+        for (const mod of shown) {
+            lines.push(`  ${formatDelta(mod.delta).padStart(14)}  ${mod.status.padEnd(7)}  ${mod.name}`);
+        }
+    }
+
+    if (diff.assets.every(a => a.status === 'unchanged') && diff.modules.length === 0) {
+        lines.push('', 'No changes.');
+    }
+    return lines.join('\n');
+}
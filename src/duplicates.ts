@@ -0,0 +1,175 @@
+import { readFileSync } from 'node:fs';
+import type { WebpackChunkNative, WebpackModuleNative, WebpackStatsNative } from './stats.ts';
+
+// --- Duplicate Package Interfaces ---
+
+// Where a module comes from, parsed from its node_modules path
+export interface PackageLocation {
+    name: string; // e.g. `lodash`, `@babel/runtime`
+    path: string; // Install path, e.g. `node_modules/foo/node_modules/lodash`
+    version: string | null; // Only known when the path encodes it (pnpm: `.pnpm/lodash@4.17.21/...`)
+}
+
+// One install path of a package
+export interface PackageInstall {
+    path: string;
+    version: string | null; // From the pnpm path, the modules' `descriptionData` or the installed package.json
+    size: number; // Sum of the package's modules at this path
+    moduleCount: number;
+    chunks: string[]; // Chunks containing modules from this path
+}
+
+export interface DuplicatePackage {
+    name: string;
+    installs: PackageInstall[]; // Largest first
+    duplicatedChunks: string[]; // Async chunks that carry a copy of a module that is also in another async chunk
+    installWastedSize: number; // Every install except the largest one
+    chunkWastedSize: number; // Extra copies of modules bundled into several async chunks
+    wastedSize: number; // installWastedSize + chunkWastedSize
+}
+
+// --- Path Parsing ---
+
+const NODE_MODULES = 'node_modules/';
+
+/**
+ * Parses a module name or identifier into its package and install path.
+ * `./node_modules/a/node_modules/lodash/map.js` -> { name: 'lodash', path: 'node_modules/a/node_modules/lodash' }
+ * Returns null for modules outside node_modules.
+ */
+export function parsePackageLocation(modulePath: string): PackageLocation | null {
+    // Strip loaders, the concatenation suffix and Windows separators
+    const normalized = modulePath.slice(modulePath.lastIndexOf('!') + 1).replace(/ \+ \d+ modules?$/, '').replace(/\\/g, '/');
+    const lastIndex = normalized.lastIndexOf(NODE_MODULES);
+    if (lastIndex === -1) return null;
+
+    const segments = normalized.slice(lastIndex + NODE_MODULES.length).split('/');
+    const nameSegments = segments[0]?.startsWith('@') ? segments.slice(0, 2) : segments.slice(0, 1);
+    if (nameSegments.length === 0 || nameSegments.some(segment => !segment) || nameSegments[0] === '.pnpm') return null;
+    const name = nameSegments.join('/');
+
+    // Keep everything from the first node_modules on, so absolute identifiers and `./` names give the same path
+    const firstIndex = normalized.indexOf(NODE_MODULES);
+    const path = normalized.slice(firstIndex, lastIndex + NODE_MODULES.length) + name;
+
+    const pnpmMatch = path.match(/\.pnpm\/(@[^/+]+\+)?[^/@]+@([^/_(]+)/);
+    return { name, path, version: pnpmMatch?.[2] ?? null };
+}
+
+// npm and yarn install paths do not encode the version, so it is read from the package.json of the install,
+// found through the module's absolute identifier (`/app/node_modules/lodash/map.js`, Rspack: `javascript/auto|/app/...`)
+function readInstalledVersion(identifier: string, location: PackageLocation, cache: Map<string, string | null>): string | null {
+    const normalized = identifier.slice(identifier.lastIndexOf('!') + 1).replace(/^[\w/-]+\|/, '').replace(/\\/g, '/');
+    const installIndex = normalized.lastIndexOf(`${NODE_MODULES}${location.name}/`);
+    if (installIndex === -1 || !/^(\/|[A-Za-z]:\/)/.test(normalized)) return null;
+
+    const packageJsonPath = `${normalized.slice(0, installIndex + NODE_MODULES.length + location.name.length)}/package.json`;
+    if (!cache.has(packageJsonPath)) {
+        let version: string | null = null;
+        try {
+            const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+            if (typeof packageJson?.version === 'string') version = packageJson.version;
+        } catch {
+            // Stats from another machine, or a package without package.json
+        }
+        cache.set(packageJsonPath, version);
+    }
+    return cache.get(packageJsonPath)!;
+}
+
+// --- Detection ---
+
+function getChunkLabel(chunk: WebpackChunkNative | undefined, chunkId: string | number): string {
+    return chunk && chunk.names.length > 0 ? chunk.names.join(', ') : `chunk ${chunkId}`;
+}
+
+// Every module with the chunks it is bundled into; concatenated modules are replaced by their inner modules
+export function collectModuleChunks(statsData: WebpackStatsNative): Map<string, { mod: WebpackModuleNative, chunkIds: Set<string> }> {
+    const result = new Map<string, { mod: WebpackModuleNative, chunkIds: Set<string> }>();
+    const add = (mod: WebpackModuleNative, chunkIds: Iterable<string | number>) => {
+        if (Array.isArray(mod.modules) && mod.modules.length > 0) {
+            for (const inner of mod.modules) add(inner, chunkIds);
+            return;
+        }
+        const key = mod.identifier || mod.name;
+        const entry = result.get(key) ?? { mod, chunkIds: new Set<string>() };
+        for (const chunkId of chunkIds) entry.chunkIds.add(String(chunkId));
+        result.set(key, entry);
+    };
+
+    if (statsData.modules && statsData.modules.length > 0) {
+        for (const mod of statsData.modules) add(mod, mod.chunks ?? []);
+    } else {
+        // Stats without top-level modules: fall back to the per-chunk module lists
+        for (const chunk of statsData.chunks ?? []) {
+            for (const mod of chunk.modules ?? []) add(mod, [chunk.id]);
+        }
+    }
+    return result;
+}
+
+/**
+ * Finds packages installed at several paths (e.g. two lodash versions) and packages whose modules
+ * are bundled into more than one async chunk. Initial chunks are left out of the latter: those of different
+ * entrypoints are not loaded together, so sharing modules between them wastes nothing.
+ * Sorted by wasted bytes, largest first.
+ */
+export function findDuplicatePackages(statsData: WebpackStatsNative): DuplicatePackage[] {
+    const chunksById = new Map((statsData.chunks ?? []).map(chunk => [String(chunk.id), chunk]));
+    const chunkLabel = (chunkId: string) => getChunkLabel(chunksById.get(chunkId), chunkId);
+    const isAsyncChunk = (chunkId: string) => chunksById.get(chunkId)?.initial === false;
+    const packageJsonVersions = new Map<string, string | null>();
+
+    type InstallAccumulator = { location: PackageLocation, version: string | null, identifier: string | null, size: number, moduleCount: number, chunkIds: Set<string> };
+    const packages = new Map<string, { installs: Map<string, InstallAccumulator>, duplicatedChunkIds: Set<string>, chunkWastedSize: number }>();
+
+    for (const { mod, chunkIds } of collectModuleChunks(statsData).values()) {
+        const location = parsePackageLocation(mod.name || mod.identifier) ?? parsePackageLocation(mod.identifier ?? '');
+        if (!location) continue;
+
+        const pkg = packages.get(location.name) ?? { installs: new Map(), duplicatedChunkIds: new Set<string>(), chunkWastedSize: 0 };
+        packages.set(location.name, pkg);
+        const install = pkg.installs.get(location.path) ?? { location, version: location.version, identifier: null, size: 0, moduleCount: 0, chunkIds: new Set<string>() };
+        pkg.installs.set(location.path, install);
+        if (install.version === null && mod.descriptionData?.name === location.name) install.version = mod.descriptionData.version ?? null;
+        install.identifier ??= mod.identifier || null;
+
+        const size = mod.size ?? 0;
+        install.size += size;
+        install.moduleCount++;
+        for (const chunkId of chunkIds) install.chunkIds.add(chunkId);
+        const asyncChunkIds = [...chunkIds].filter(isAsyncChunk);
+        if (asyncChunkIds.length > 1) {
+            pkg.chunkWastedSize += size * (asyncChunkIds.length - 1);
+            for (const chunkId of asyncChunkIds) pkg.duplicatedChunkIds.add(chunkId);
+        }
+    }
+
+    const duplicates: DuplicatePackage[] = [];
+    for (const [name, pkg] of packages) {
+        if (pkg.installs.size < 2 && pkg.chunkWastedSize === 0) continue;
+
+        const installs: PackageInstall[] = [...pkg.installs.values()]
+            .map(install => ({
+                path: install.location.path,
+                version: install.version ?? (install.identifier ? readInstalledVersion(install.identifier, install.location, packageJsonVersions) : null),
+                size: install.size,
+                moduleCount: install.moduleCount,
+                chunks: [...install.chunkIds].map(chunkLabel),
+            }))
+            .sort((a, b) => b.size - a.size);
+        // Deduplicating installs keeps one copy, so the largest one is not counted as waste
+        const installWastedSize = installs.slice(1).reduce((sum, install) => sum + install.size, 0);
+
+        duplicates.push({
+            name,
+            installs,
+            duplicatedChunks: [...pkg.duplicatedChunkIds].map(chunkLabel),
+            installWastedSize,
+            chunkWastedSize: pkg.chunkWastedSize,
+            wastedSize: installWastedSize + pkg.chunkWastedSize,
+        });
+    }
+
+    return duplicates.sort((a, b) => b.wastedSize - a.wastedSize || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,150 @@
+import { ALL_COMPILATIONS, getModulesForAsset, type WebpackModuleNative } from './stats.ts';
+import { getAssetModules, getConfigPayload, getDirectDependencies, loadServerState, loadStaticInputs, type AllCompilationsView, type AnalysisOptions, type CompilationView, type ServerState } from './server.ts';
+import { bundleFilterWorker, bundleStaticExport, readTailwindCss, staticAssets } from './static-assets.ts';
+
+// --- Export Interfaces ---
+
+export interface ExportOptions extends AnalysisOptions {
+    outputFilePath: string;
+}
+
+// Config as served by /api/config; exported files never receive reloads
+type ExportedConfig = ReturnType<typeof getConfigPayload> & { watch: false };
+
+// Module fields the asset modal shows; `reasons` and the concatenated `modules` are left out
+type ExportedModule = Pick<WebpackModuleNative, 'id' | 'identifier' | 'name' | 'size' | 'issuerName'>;
+
+// Fields added by getAssetModules when a baseline is given or the asset has a source map
+type ModuleAnnotations = Partial<{ baseSize: number, sizeDelta: number, diffStatus: string, mappedSize: number }>;
+
+// A module index into `modules`, or the index plus the module's annotations
+type ExportedAssetModule = number | ({ i: number } & ModuleAnnotations);
+
+// Precomputed answers for one compilation; public/static-export.js serves them as /api/* responses
+interface ExportedCompilation {
+    config: ExportedConfig;
+    table: CompilationView['tableAssets'];
+    duplicates: CompilationView['duplicates'];
+    chunks: CompilationView['chunkAnalysis']['chunks'];
+    entrypoints: CompilationView['chunkAnalysis']['entrypoints'];
+    treeShaking: CompilationView['treeShaking'];
+    modules: ExportedModule[]; // Stored once, referenced by index
+    indexedCount: number; // The first N modules can be looked up by ID, identifier or name; the rest are inner modules
+    assetModules: Record<string, ExportedAssetModule[]>; // Asset name -> modules, largest first
+    dependencies: Record<number, number[]>; // Module index -> direct dependencies, largest first
+}
+
+interface ExportedData {
+    defaultCompilation: string;
+    compilations: Record<string, ExportedCompilation>;
+    all: Pick<AllCompilationsView, 'duplicates' | 'chunks' | 'entrypoints' | 'treeShaking'> & { config: ExportedConfig, table: AllCompilationsView['tableAssets'] };
+}
+
+// --- Data ---
+
+function exportCompilation(state: ServerState, view: CompilationView): ExportedCompilation {
+    const modules: ExportedModule[] = [];
+    const moduleIndexes = new Map<WebpackModuleNative, number>();
+    const addModule = (mod: WebpackModuleNative): number => {
+        let index = moduleIndexes.get(mod);
+        if (index === undefined) {
+            index = modules.push({ id: mod.id, identifier: mod.identifier, name: mod.name, size: mod.size, issuerName: mod.issuerName }) - 1;
+            moduleIndexes.set(mod, index);
+        }
+        return index;
+    };
+
+    // Same modules, in the same order, as the lookups in the view's module index
+    const { byId, byIdentifier, byName } = view.moduleIndex;
+    const indexedModules = new Set([...byIdentifier.values(), ...byId.values(), ...byName.values()]);
+    indexedModules.forEach(addModule);
+    const indexedCount = modules.length;
+
+    const dependencies: Record<number, number[]> = {};
+    for (const mod of indexedModules) {
+        const children = getDirectDependencies(view, mod);
+        if (children.length > 0) dependencies[moduleIndexes.get(mod)!] = children.map(addModule);
+    }
+
+    const assetModules: Record<string, ExportedAssetModule[]> = {};
+    for (const asset of view.statsData.assets) {
+        const assetModuleList = getModulesForAsset(view.statsData, asset.name);
+        if (!view.baseline && !view.sourceMaps.has(asset.name)) {
+            assetModules[asset.name] = assetModuleList.map(addModule);
+            continue;
+        }
+        // Same order as `assetModuleList`, annotated with baseline and minified sizes
+        const annotatedModules = getAssetModules(view, asset.name);
+        assetModules[asset.name] = assetModuleList.map((mod, index) => {
+            const { baseSize, sizeDelta, diffStatus, mappedSize } = annotatedModules[index] as WebpackModuleNative & ModuleAnnotations;
+            return { i: addModule(mod), baseSize, sizeDelta, diffStatus, mappedSize };
+        });
+    }
+
+    return {
+        config: { ...getConfigPayload(state, view), watch: false },
+        table: view.tableAssets,
+        duplicates: view.duplicates,
+        chunks: view.chunkAnalysis.chunks,
+        entrypoints: view.chunkAnalysis.entrypoints,
+        treeShaking: view.treeShaking,
+        modules,
+        indexedCount,
+        assetModules,
+        dependencies,
+    };
+}
+
+function exportData(state: ServerState): ExportedData {
+    return {
+        defaultCompilation: state.defaultView.name,
+        compilations: Object.fromEntries(state.views.map(view => [view.name, exportCompilation(state, view)])),
+        all: {
+            config: { ...getConfigPayload(state, ALL_COMPILATIONS), watch: false },
+            table: state.allView.tableAssets,
+            duplicates: state.allView.duplicates,
+            chunks: state.allView.chunks,
+            entrypoints: state.allView.entrypoints,
+            treeShaking: state.allView.treeShaking,
+        },
+    };
+}
+
+// --- HTML ---
+
+// Keeps `</script` inside inlined JavaScript from closing the element early
+function escapeScript(source: string): string {
+    return source.replace(/<\/script/gi, '<\\/script');
+}
+
+// JSON inside <script type="application/json">; `<` is still valid JSON but can never start a closing tag
+function escapeJson(value: unknown): string {
+    return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function replaceTag(html: string, tag: string, replacement: string): string {
+    if (!html.includes(tag)) throw new Error(`Could not find ${tag} in index.html`);
+    return html.replace(tag, () => replacement); // A function, so `$&` and friends in the replacement stay literal
+}
+
+/**
+ * Writes a single HTML file that shows the same interface as `serve` without a server or network access:
+ * Tailwind, Vue, the filter worker and the API responses are inlined. Treemap, sunburst and import chains
+ * need server-side queries and are hidden.
+ */
+export async function exportReport(options: ExportOptions): Promise<{ outputFilePath: string, size: number }> {
+    const state = await loadServerState(options, await loadStaticInputs(options), 1);
+    const [workerSource, staticExportSource] = await Promise.all([bundleFilterWorker(), bundleStaticExport()]);
+
+    let html = staticAssets.html;
+    html = replaceTag(html, '<link rel="stylesheet" href="./tailwind.css">', `<style>${await readTailwindCss()}</style>`);
+    html = replaceTag(html, '<script src="./vendor/vue.global.prod.js"></script>', [
+        `<script>${escapeScript(staticAssets.vue)}</script>`,
+        `<script id="bundle-data" type="application/json">${escapeJson(exportData(state))}</script>`,
+        `<script id="bundle-worker" type="javascript/worker">${escapeScript(workerSource)}</script>`,
+        `<script>${escapeScript(staticExportSource)}</script>`,
+    ].join('\n    '));
+
+    const size = await Bun.write(options.outputFilePath, html);
+    return { outputFilePath: options.outputFilePath, size };
+}
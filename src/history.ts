@@ -0,0 +1,200 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { normalizeAssetName } from './diff.ts';
+import { parsePackageLocation } from './duplicates.ts';
+import { ALL_COMPILATIONS, type WebpackCompilation, type WebpackModuleNative } from './stats.ts';
+
+// --- History Interfaces ---
+
+export interface SizeEntry {
+    name: string;
+    size: number;
+}
+
+// Compact summary of one compilation; module lists are left out so years of snapshots stay small
+export interface SnapshotCompilation {
+    name: string;
+    totalSize: number; // Sum of all assets, like the total in `diff`
+    assets: SizeEntry[]; // Largest first
+    chunks: SizeEntry[]; // Named by chunk names, or `chunk <id>` for unnamed chunks
+    packages: SizeEntry[]; // Module sizes summed per node_modules package
+}
+
+export interface HistorySnapshot {
+    label: string; // Usually the git commit SHA of the build
+    recordedAt: string; // ISO timestamp
+    statsFilePath: string;
+    compilations: SnapshotCompilation[];
+}
+
+// One point of the trend chart
+export interface HistoryPoint {
+    label: string;
+    recordedAt: string;
+    totalSize: number;
+    assetSize: number | null; // Size of the requested asset; null when it is missing from the snapshot
+}
+
+export interface SizeJump {
+    label: string; // Snapshot where the asset grew
+    recordedAt: string;
+    previousLabel: string;
+    previousSize: number;
+    size: number;
+    delta: number;
+}
+
+// Default history store of `record` and `serve --history`, one snapshot per line
+export const DEFAULT_HISTORY_FILE = 'bundle-history.jsonl';
+
+// --- Recording ---
+
+function bySizeDescending(a: SizeEntry, b: SizeEntry): number {
+    return b.size - a.size;
+}
+
+function sumPackageSizes(modules: Iterable<WebpackModuleNative>): SizeEntry[] {
+    const sizes = new Map<string, number>();
+    const add = (mod: WebpackModuleNative) => {
+        // Concatenated modules are counted through their inner modules, which carry the package paths
+        if (Array.isArray(mod.modules) && mod.modules.length > 0) {
+            mod.modules.forEach(add);
+            return;
+        }
+        const location = parsePackageLocation(mod.name || mod.identifier) ?? parsePackageLocation(mod.identifier ?? '');
+        if (location) sizes.set(location.name, (sizes.get(location.name) ?? 0) + (mod.size ?? 0));
+    };
+    for (const mod of modules) add(mod);
+    return [...sizes].map(([name, size]) => ({ name, size })).sort(bySizeDescending);
+}
+
+export function summarizeCompilation({ name, statsData, moduleIndex }: WebpackCompilation): SnapshotCompilation {
+    const assets = statsData.assets.map(asset => ({ name: asset.name, size: asset.size ?? 0 }));
+    return {
+        name,
+        totalSize: assets.reduce((sum, asset) => sum + asset.size, 0),
+        assets: assets.sort(bySizeDescending),
+        chunks: (statsData.chunks ?? [])
+            .map(chunk => ({ name: chunk.names.length > 0 ? chunk.names.join(', ') : `chunk ${chunk.id}`, size: chunk.size ?? 0 }))
+            .sort(bySizeDescending),
+        packages: sumPackageSizes(moduleIndex.byIdentifier.values()),
+    };
+}
+
+export function createSnapshot(label: string, statsFilePath: string, compilations: WebpackCompilation[]): HistorySnapshot {
+    return { label, recordedAt: new Date().toISOString(), statsFilePath, compilations: compilations.map(summarizeCompilation) };
+}
+
+// --- Store ---
+
+/**
+ * Reads every snapshot of a history store, oldest first. A missing store is an empty history.
+ */
+export async function readHistory(storePath: string): Promise<HistorySnapshot[]> {
+    const storeFile = Bun.file(storePath);
+    if (!(await storeFile.exists())) return [];
+
+    const snapshots: HistorySnapshot[] = [];
+    (await storeFile.text()).split('\n').forEach((line, index) => {
+        if (!line.trim()) return;
+        let snapshot: unknown;
+        try {
+            snapshot = JSON.parse(line);
+        } catch (error) {
+            throw new Error(`Invalid history store: could not parse line ${index + 1} of ${storePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (typeof snapshot !== 'object' || snapshot === null || !('label' in snapshot) || !('compilations' in snapshot) || !Array.isArray(snapshot.compilations)) {
+            throw new Error(`Invalid history store: line ${index + 1} of ${storePath} is not a snapshot.`);
+        }
+        snapshots.push(snapshot as HistorySnapshot);
+    });
+    return snapshots;
+}
+
+/**
+ * Adds a snapshot to the store. Recording a label again (e.g. a re-run CI job) replaces the earlier snapshot
+ * and moves it to the end.
+ * @returns Number of snapshots in the store.
+ */
+export async function recordSnapshot(storePath: string, snapshot: HistorySnapshot): Promise<number> {
+    const snapshots = await readHistory(storePath);
+    await mkdir(path.dirname(storePath), { recursive: true });
+    if (snapshots.some(s => s.label === snapshot.label)) {
+        const kept = [...snapshots.filter(s => s.label !== snapshot.label), snapshot];
+        await Bun.write(storePath, kept.map(s => `${JSON.stringify(s)}\n`).join(''));
+        return kept.length;
+    }
+    // New labels are appended, so recording stays cheap as the store grows
+    await appendFile(storePath, `${JSON.stringify(snapshot)}\n`);
+    return snapshots.length + 1;
+}
+
+// --- Queries ---
+
+/**
+ * The summary of one compilation in a snapshot, matched by name. The merged "all compilations" view sums
+ * every compilation and prefixes names with the compilation, like the merged asset table.
+ * Returns null when the snapshot has no such compilation.
+ */
+export function getSnapshotCompilation(snapshot: HistorySnapshot, compilationName: string): SnapshotCompilation | null {
+    if (compilationName !== ALL_COMPILATIONS) return snapshot.compilations.find(c => c.name === compilationName) ?? null;
+
+    const merge = (select: (c: SnapshotCompilation) => SizeEntry[]) => snapshot.compilations
+        .flatMap(c => select(c).map(entry => ({ name: `${c.name}/${entry.name}`, size: entry.size })))
+        .sort(bySizeDescending);
+    return {
+        name: ALL_COMPILATIONS,
+        totalSize: snapshot.compilations.reduce((sum, c) => sum + c.totalSize, 0),
+        assets: merge(c => c.assets),
+        chunks: merge(c => c.chunks),
+        packages: merge(c => c.packages),
+    };
+}
+
+// Assets are matched across snapshots by their hash-normalized name, as in `diff`
+function findAssetSize(compilation: SnapshotCompilation, assetName: string): number | null {
+    const key = normalizeAssetName(assetName);
+    return compilation.assets.find(asset => asset.name === assetName || normalizeAssetName(asset.name) === key)?.size ?? null;
+}
+
+/**
+ * The total size (and optionally one asset's size) of a compilation in every snapshot that contains it.
+ */
+export function getHistoryPoints(snapshots: HistorySnapshot[], compilationName: string, assetName: string | null): HistoryPoint[] {
+    return snapshots.flatMap(snapshot => {
+        const compilation = getSnapshotCompilation(snapshot, compilationName);
+        if (!compilation) return [];
+        return [{
+            label: snapshot.label,
+            recordedAt: snapshot.recordedAt,
+            totalSize: compilation.totalSize,
+            assetSize: assetName === null ? null : findAssetSize(compilation, assetName),
+        }];
+    });
+}
+
+/**
+ * Finds the first snapshot where an asset grew by at least `minPercent` percent over the previous snapshot
+ * that contained it, and by at least `minBytes`. Returns null if it never did.
+ */
+export function findFirstSizeJump(points: HistoryPoint[], minPercent: number, minBytes: number): SizeJump | null {
+    let previous: HistoryPoint | null = null;
+    for (const point of points) {
+        if (point.assetSize === null) continue;
+        if (previous) {
+            const delta = point.assetSize - previous.assetSize!;
+            if (delta >= minBytes && delta > 0 && delta * 100 >= previous.assetSize! * minPercent) {
+                return {
+                    label: point.label,
+                    recordedAt: point.recordedAt,
+                    previousLabel: previous.label,
+                    previousSize: previous.assetSize!,
+                    size: point.assetSize,
+                    delta,
+                };
+            }
+        }
+        previous = point;
+    }
+    return null;
+}
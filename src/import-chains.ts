@@ -0,0 +1,165 @@
+import type { WebpackModuleNative, WebpackReason, WebpackStatsNative } from './stats.ts';
+
+// --- Import Chain Interfaces ---
+
+export type ImportKind = 'entry' | 'esm' | 'require' | 'dynamic' | 'other';
+
+export interface ModuleRef {
+    id: number | string | null;
+    identifier: string;
+    name: string;
+}
+
+// One module on a chain, plus how the previous module imported it
+export interface ImportChainStep {
+    module: ModuleRef;
+    importKind: ImportKind;
+    importTypes: string[]; // Raw webpack reason types, e.g. `harmony import specifier`
+    userRequest: string | null; // Request as written in the importing file, e.g. `./foo`
+    locations: string[]; // Locations in the importing file, e.g. `1:0-24`
+}
+
+// Path from an entrypoint down to the module; the first step is the entry module
+export interface ImportChain {
+    entrypoint: string;
+    steps: ImportChainStep[];
+}
+
+export interface ImportChainsResult {
+    module: ModuleRef;
+    chains: ImportChain[]; // Shortest first
+    truncated: boolean; // More chains exist than were returned
+}
+
+// Importers of a module, grouped by importing module
+interface ImportEdge {
+    parentIdentifier: string;
+    reasons: WebpackReason[];
+}
+
+// Reverse import graph of a compilation, built once from `reasons`
+export interface ImportGraph {
+    modulesByIdentifier: Map<string, WebpackModuleNative>;
+    importers: Map<string, ImportEdge[]>;
+    entrypoints: Map<string, string>; // Entry module identifier -> entrypoint name
+}
+
+// --- Graph Building ---
+
+// Webpack reason types: `harmony import specifier`, `cjs require`, `import()`, `require.ensure`, `entry`, ...
+export function classifyReasonType(type: string): ImportKind {
+    const normalized = type.toLowerCase();
+    if (normalized.includes('entry')) return 'entry';
+    if (normalized.includes('import()') || normalized.includes('require.ensure') || normalized.includes('lazy')) return 'dynamic';
+    if (normalized.startsWith('harmony') || normalized.startsWith('esm')) return 'esm';
+    if (normalized.includes('require') || normalized.includes('cjs') || normalized.includes('amd') || normalized.includes('commonjs')) return 'require';
+    return 'other';
+}
+
+// A module reached both statically and dynamically is bundled because of the static import
+const IMPORT_KIND_PRIORITY: ImportKind[] = ['esm', 'require', 'dynamic', 'other', 'entry'];
+
+function toModuleRef(mod: WebpackModuleNative): ModuleRef {
+    return { id: mod.id ?? null, identifier: mod.identifier, name: mod.name || mod.identifier };
+}
+
+export function buildImportGraph(statsData: WebpackStatsNative): ImportGraph {
+    const modulesByIdentifier = new Map<string, WebpackModuleNative>();
+    const importers = new Map<string, ImportEdge[]>();
+    const entrypoints = new Map<string, string>();
+    const entryChunkNames = new Map((statsData.chunks ?? []).filter(chunk => chunk.entry).map(chunk => [String(chunk.id), chunk.names[0] ?? `chunk ${chunk.id}`]));
+
+    // Inner modules of concatenated modules have their own reasons, so index them too
+    const addModule = (mod: WebpackModuleNative) => {
+        if (!mod.identifier || modulesByIdentifier.has(mod.identifier)) return;
+        modulesByIdentifier.set(mod.identifier, mod);
+        for (const inner of mod.modules ?? []) addModule(inner);
+    };
+    const topLevelModules = statsData.modules && statsData.modules.length > 0
+        ? statsData.modules
+        : (statsData.chunks ?? []).flatMap(chunk => chunk.modules ?? []);
+    topLevelModules.forEach(addModule);
+
+    for (const mod of modulesByIdentifier.values()) {
+        const edges = new Map<string, ImportEdge>();
+        for (const reason of mod.reasons ?? []) {
+            if (classifyReasonType(reason.type ?? '') === 'entry') {
+                entrypoints.set(mod.identifier, reason.loc || reason.userRequest || mod.name);
+                continue;
+            }
+            if (!reason.moduleIdentifier || reason.moduleIdentifier === mod.identifier) continue;
+            const edge = edges.get(reason.moduleIdentifier) ?? { parentIdentifier: reason.moduleIdentifier, reasons: [] };
+            edge.reasons.push(reason);
+            edges.set(reason.moduleIdentifier, edge);
+        }
+        if (edges.size > 0) importers.set(mod.identifier, [...edges.values()]);
+
+        // Older stats have no entry reasons: an entry module is one nobody imports, placed in an entry chunk
+        if (edges.size === 0 && !entrypoints.has(mod.identifier)) {
+            const entryChunkId = (mod.chunks ?? []).map(String).find(chunkId => entryChunkNames.has(chunkId));
+            if (entryChunkId !== undefined && (mod.depth === 0 || !mod.issuer)) {
+                entrypoints.set(mod.identifier, entryChunkNames.get(entryChunkId)!);
+            }
+        }
+    }
+
+    return { modulesByIdentifier, importers, entrypoints };
+}
+
+// --- Chain Search ---
+
+function toStep(mod: WebpackModuleNative, reasons: WebpackReason[]): ImportChainStep {
+    const importTypes = [...new Set(reasons.map(reason => reason.type).filter(Boolean))];
+    const kinds = new Set(importTypes.map(classifyReasonType));
+    return {
+        module: toModuleRef(mod),
+        importKind: IMPORT_KIND_PRIORITY.find(kind => kinds.has(kind)) ?? 'other',
+        importTypes,
+        userRequest: reasons.find(reason => reason.userRequest)?.userRequest ?? null,
+        locations: [...new Set(reasons.map(reason => reason.loc).filter(Boolean))],
+    };
+}
+
+/**
+ * Finds every import path from an entrypoint down to the module, walking `reasons` upwards.
+ * Breadth-first, so the shortest chains come first; stops after `maxChains` chains or
+ * `maxVisits` partial paths to stay fast on heavily interconnected graphs.
+ */
+export function findImportChains(graph: ImportGraph, moduleIdentifier: string, maxChains = 50, maxVisits = 20000): ImportChainsResult | null {
+    const target = graph.modulesByIdentifier.get(moduleIdentifier);
+    if (!target) return null;
+
+    // Partial paths from some module down to the target, stored bottom-up
+    type PartialChain = { identifiers: string[], steps: ImportChainStep[] };
+    const queue: PartialChain[] = [{ identifiers: [moduleIdentifier], steps: [] }];
+    const chains: ImportChain[] = [];
+    let visits = 0;
+    let truncated = false;
+
+    for (let index = 0; index < queue.length; index++) {
+        if (chains.length >= maxChains || ++visits > maxVisits) {
+            truncated = true;
+            break;
+        }
+        const partial = queue[index]!;
+        const topIdentifier = partial.identifiers.at(-1)!;
+        const topModule = graph.modulesByIdentifier.get(topIdentifier);
+
+        const entrypoint = graph.entrypoints.get(topIdentifier);
+        if (entrypoint !== undefined && topModule) {
+            const entryStep: ImportChainStep = { module: toModuleRef(topModule), importKind: 'entry', importTypes: ['entry'], userRequest: null, locations: [] };
+            chains.push({ entrypoint, steps: [entryStep, ...[...partial.steps].reverse()] });
+        }
+
+        for (const edge of graph.importers.get(topIdentifier) ?? []) {
+            if (partial.identifiers.includes(edge.parentIdentifier)) continue; // Import cycle
+            if (!graph.modulesByIdentifier.has(edge.parentIdentifier)) continue; // Importer filtered out of the stats
+            queue.push({
+                identifiers: [...partial.identifiers, edge.parentIdentifier],
+                steps: [...partial.steps, toStep(topModule ?? target, edge.reasons)],
+            });
+        }
+    }
+
+    return { module: toModuleRef(target), chains, truncated };
+}
@@ -0,0 +1,74 @@
+import type { WebpackModuleNative, WebpackStatsNative } from './stats.ts';
+
+// --- Module Indexes ---
+
+// Lookup tables for one compilation's modules. IDs are stored as strings so `42` and `"42"` find the same module.
+export interface ModuleIndex {
+    byId: Map<string, WebpackModuleNative>;
+    byIdentifier: Map<string, WebpackModuleNative>;
+    byName: Map<string, WebpackModuleNative>;
+    byIssuer: Map<string, WebpackModuleNative[]>; // Issuer identifier -> modules it imported
+    byIssuerId: Map<string, WebpackModuleNative[]>; // Issuer id -> modules it imported
+}
+
+// Key of a module ID in the indexes, or null for modules without an ID (Rspack runtime modules have an empty one)
+export function getModuleIdKey(id: WebpackModuleNative['id'] | undefined): string | null {
+    return id === null || id === undefined || id === '' ? null : String(id);
+}
+
+/**
+ * Collects modules into a ModuleIndex. `add` returns the module already known under the same identifier,
+ * so modules that are listed in several chunks and in the top-level `modules` array are stored once.
+ */
+export class ModuleIndexBuilder {
+    private readonly index: ModuleIndex = { byId: new Map(), byIdentifier: new Map(), byName: new Map(), byIssuer: new Map(), byIssuerId: new Map() };
+
+    add(mod: WebpackModuleNative): WebpackModuleNative {
+        const existing = mod.identifier ? this.index.byIdentifier.get(mod.identifier) : undefined;
+        if (existing) return existing;
+
+        const { byId, byIdentifier, byName, byIssuer, byIssuerId } = this.index;
+        if (mod.identifier) byIdentifier.set(mod.identifier, mod);
+        const idKey = getModuleIdKey(mod.id);
+        if (idKey !== null && !byId.has(idKey)) byId.set(idKey, mod);
+        if (mod.name && !byName.has(mod.name)) byName.set(mod.name, mod);
+        if (mod.issuer) appendTo(byIssuer, mod.issuer, mod);
+        const issuerIdKey = getModuleIdKey(mod.issuerId);
+        if (issuerIdKey !== null) appendTo(byIssuerId, issuerIdKey, mod);
+        return mod;
+    }
+
+    // Stats that only list modules per chunk get a deduplicated top-level `modules` array
+    finish(statsData: WebpackStatsNative): ModuleIndex {
+        if ((!statsData.modules || statsData.modules.length === 0) && this.index.byIdentifier.size > 0) {
+            statsData.modules = [...this.index.byIdentifier.values()];
+        }
+        return this.index;
+    }
+}
+
+function appendTo(map: Map<string, WebpackModuleNative[]>, key: string, mod: WebpackModuleNative) {
+    const list = map.get(key);
+    if (list) list.push(mod);
+    else map.set(key, [mod]);
+}
+
+// Indexes for stats that were not loaded through the streaming parser (e.g. adapters or tests)
+export function buildModuleIndex(statsData: WebpackStatsNative): ModuleIndex {
+    const builder = new ModuleIndexBuilder();
+    for (const mod of statsData.modules ?? []) builder.add(mod);
+    for (const chunk of statsData.chunks ?? []) {
+        for (const mod of chunk.modules ?? []) builder.add(mod);
+    }
+    return builder.finish(statsData);
+}
+
+// Modules imported by `mod`, found through the issuer indexes; both are checked because older stats lack issuerId
+export function getIssuedModules(index: ModuleIndex, mod: WebpackModuleNative): WebpackModuleNative[] {
+    const idKey = getModuleIdKey(mod.id);
+    const byId = idKey !== null ? index.byIssuerId.get(idKey) ?? [] : [];
+    const byIdentifier = mod.identifier ? index.byIssuer.get(mod.identifier) ?? [] : [];
+    if (byIdentifier.length === 0) return byId;
+    if (byId.length === 0) return byIdentifier;
+    return [...new Set([...byId, ...byIdentifier])];
+}
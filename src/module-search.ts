@@ -0,0 +1,192 @@
+import { parsePackageLocation } from './duplicates.ts';
+import { classifyReasonType, type ImportKind } from './import-chains.ts';
+import type { WebpackModuleNative, WebpackStatsNative } from './stats.ts';
+
+// --- Module Search Interfaces ---
+
+export interface ModuleSearchResult {
+    id: number | string | null;
+    identifier: string;
+    name: string;
+    size: number;
+    package: string | null; // Package the module belongs to, for modules under node_modules
+    assets: string[]; // Assets emitted from the chunks containing the module
+    chunks: { id: string, label: string }[];
+    issuerName: string | null;
+    concatenatedIn: string | null; // Name of the concatenated module this module was inlined into
+    compilation?: string; // Set in the merged "all compilations" view
+}
+
+export interface ModuleSearchPage {
+    query: string;
+    total: number; // Matching modules across all pages
+    totalSize: number; // Sum of the matches; inner modules whose concatenated module also matches are counted once
+    offset: number;
+    limit: number;
+    results: ModuleSearchResult[]; // Largest first
+}
+
+// Every module of a compilation with the values queries match against, built once per compilation
+interface SearchEntry {
+    result: ModuleSearchResult;
+    lowerName: string; // Name and identifier, lowercased
+    chunkIds: Set<string>;
+    lowerChunkNames: string[];
+    reasonKinds: Set<ImportKind>;
+    lowerReasonTypes: string[];
+}
+
+export type ModuleSearchIndex = SearchEntry[];
+
+type Predicate = (entry: SearchEntry) => boolean;
+
+const SEARCH_KEYS = ['pkg', 'chunk', 'reason', 'asset', 'issuer'];
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+const IMPORT_KINDS: ImportKind[] = ['entry', 'esm', 'require', 'dynamic', 'other'];
+
+// --- Index ---
+
+export function buildModuleSearchIndex(statsData: WebpackStatsNative, modules: Iterable<WebpackModuleNative>): ModuleSearchIndex {
+    const chunksById = new Map((statsData.chunks ?? []).map(chunk => [String(chunk.id), chunk]));
+    // Same chunk -> asset relation as getModulesForAsset
+    const assetsByChunk = new Map<string, string[]>();
+    for (const asset of statsData.assets) {
+        for (const chunkId of asset.chunks ?? []) {
+            assetsByChunk.set(String(chunkId), [...(assetsByChunk.get(String(chunkId)) ?? []), asset.name]);
+        }
+    }
+
+    const entries: SearchEntry[] = [];
+    const add = (mod: WebpackModuleNative, chunkIds: string[], concatenatedIn: string | null) => {
+        const name = mod.name || mod.identifier;
+        const chunks = chunkIds.map(id => ({ id, names: chunksById.get(id)?.names ?? [] }));
+        const reasonTypes = (mod.reasons ?? []).map(reason => reason.type).filter(type => typeof type === 'string');
+        entries.push({
+            result: {
+                id: mod.id ?? null,
+                identifier: mod.identifier,
+                name,
+                size: mod.size ?? 0,
+                package: parsePackageLocation(name)?.name ?? parsePackageLocation(mod.identifier ?? '')?.name ?? null,
+                assets: [...new Set(chunkIds.flatMap(id => assetsByChunk.get(id) ?? []))],
+                chunks: chunks.map(chunk => ({ id: chunk.id, label: chunk.names.length > 0 ? chunk.names.join(', ') : `chunk ${chunk.id}` })),
+                issuerName: mod.issuerName ?? null,
+                concatenatedIn,
+            },
+            lowerName: `${name}\n${mod.identifier ?? ''}`.toLowerCase(),
+            chunkIds: new Set(chunkIds),
+            lowerChunkNames: chunks.flatMap(chunk => chunk.names).map(chunkName => chunkName.toLowerCase()),
+            reasonKinds: new Set(reasonTypes.map(classifyReasonType)),
+            lowerReasonTypes: reasonTypes.map(type => type.toLowerCase()),
+        });
+    };
+
+    for (const mod of modules) {
+        const chunkIds = (mod.chunks ?? []).map(String);
+        add(mod, chunkIds, null);
+        // Inner modules of a concatenated module are bundled wherever the concatenated module is
+        for (const inner of mod.modules ?? []) add(inner, chunkIds, mod.name || mod.identifier);
+    }
+    return entries.sort((a, b) => b.result.size - a.result.size);
+}
+
+// --- Query Parsing ---
+
+// Whitespace-separated terms; double quotes keep spaces inside a term, e.g. `chunk:"vendors main"`
+function tokenizeQuery(query: string): string[] {
+    return (query.match(/(?:[^\s"]+|"[^"]*")+/g) ?? []).map(token => token.replace(/"/g, ''));
+}
+
+function parseSize(value: string, term: string): number {
+    const match = value.match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i);
+    if (!match) throw new Error(`Invalid size in "${term}"; use e.g. size>10kb`);
+    return Number.parseFloat(match[1]!) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]!;
+}
+
+function parseTerm(term: string): Predicate {
+    // `/regex/` matches module names, like the exclude patterns of the asset table
+    if (term.length > 2 && term.startsWith('/') && term.endsWith('/')) {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(term.slice(1, -1));
+        } catch {
+            throw new Error(`Invalid regular expression "${term}"`);
+        }
+        return entry => regex.test(entry.result.name) || regex.test(entry.result.identifier ?? '');
+    }
+
+    const sizeMatch = term.match(/^size\s*(<=|>=|<|>|=)\s*(.+)$/i);
+    if (sizeMatch) {
+        const bytes = parseSize(sizeMatch[2]!, term);
+        switch (sizeMatch[1]) {
+            case '<': return entry => entry.result.size < bytes;
+            case '<=': return entry => entry.result.size <= bytes;
+            case '>': return entry => entry.result.size > bytes;
+            case '>=': return entry => entry.result.size >= bytes;
+            default: return entry => entry.result.size === bytes;
+        }
+    }
+
+    const keyMatch = term.match(/^([a-z]+):(.*)$/i);
+    if (keyMatch) {
+        const key = keyMatch[1]!.toLowerCase();
+        const value = keyMatch[2]!.toLowerCase();
+        if (!SEARCH_KEYS.includes(key)) {
+            throw new Error(`Unknown search key "${key}:". Expected one of: ${SEARCH_KEYS.map(k => `${k}:`).join(', ')}`);
+        }
+        if (!value) throw new Error(`Missing value in "${term}"`);
+        switch (key) {
+            case 'pkg':
+                return entry => entry.result.package?.toLowerCase() === value;
+            case 'chunk':
+                // Exact chunk ID, or part of a chunk name (split chunks are often named `vendors-node_modules_...`)
+                return entry => entry.chunkIds.has(keyMatch[2]!) || entry.lowerChunkNames.some(chunkName => chunkName.includes(value));
+            case 'reason':
+                // An import kind as shown in import chains, or part of a raw webpack reason type
+                return IMPORT_KINDS.includes(value as ImportKind)
+                    ? entry => entry.reasonKinds.has(value as ImportKind)
+                    : entry => entry.lowerReasonTypes.some(type => type.includes(value));
+            case 'asset':
+                return entry => entry.result.assets.some(asset => asset.toLowerCase().includes(value));
+            default:
+                return entry => (entry.result.issuerName ?? '').toLowerCase().includes(value);
+        }
+    }
+
+    const text = term.toLowerCase();
+    return entry => entry.lowerName.includes(text);
+}
+
+/**
+ * Parses a search query into one predicate; every term must match. Terms are plain text (part of the module
+ * name), `/regex/`, `size>10kb` (also <, <=, >=, =), `pkg:`, `chunk:`, `reason:`, `asset:` and `issuer:`.
+ * A leading `!` negates a term. Throws on invalid terms.
+ */
+export function parseModuleQuery(query: string): Predicate {
+    const predicates = tokenizeQuery(query).map(term => {
+        if (term.startsWith('!') && term.length > 1) {
+            const predicate = parseTerm(term.slice(1));
+            return (entry: SearchEntry) => !predicate(entry);
+        }
+        return parseTerm(term);
+    });
+    return entry => predicates.every(predicate => predicate(entry));
+}
+
+// --- Search ---
+
+// `sources` holds one index, or one per compilation in the merged view (results are then tagged with their compilation)
+export function searchModules(sources: { index: ModuleSearchIndex, compilation?: string }[], query: string, offset: number, limit: number): ModuleSearchPage {
+    const predicate = parseModuleQuery(query);
+    const matches = sources
+        .flatMap(({ index, compilation }) => index.filter(predicate).map(entry => compilation ? { ...entry.result, compilation } : entry.result))
+        .sort((a, b) => b.size - a.size);
+
+    const containerKey = (compilation: string | undefined, name: string) => `${compilation ?? ''}\n${name}`;
+    const matchedContainers = new Set(matches.filter(result => result.concatenatedIn === null).map(result => containerKey(result.compilation, result.name)));
+    const totalSize = matches
+        .filter(result => result.concatenatedIn === null || !matchedContainers.has(containerKey(result.compilation, result.concatenatedIn)))
+        .reduce((sum, result) => sum + result.size, 0);
+
+    return { query, total: matches.length, totalSize, offset, limit, results: matches.slice(offset, offset + limit) };
+}
@@ -0,0 +1,161 @@
+import { calculatePercentages, filterAssets } from '../public/asset-filters.js';
+import { formatBytes, getModulesForAsset, type WebpackStatsNative } from './stats.ts';
+import { findDuplicatePackages, type DuplicatePackage } from './duplicates.ts';
+
+// --- Report Interfaces ---
+
+export type ReportFormat = 'json' | 'markdown' | 'csv';
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'markdown', 'csv'];
+
+export interface ReportOptions {
+    minSizeKb: number; // Same semantics as the "Hide assets < X KB" UI filter
+    excludePatterns: string[]; // Strings or /regex/ patterns, as accepted by the filter worker
+    topModules: number; // Number of modules listed per asset
+}
+
+export interface ReportModule {
+    name: string;
+    size: number;
+    percentage: number; // Share of the asset's total module size
+}
+
+export interface ReportAsset {
+    name: string;
+    size: number;
+    percentage: number; // Share of the filtered total size
+    chunkNames: string[];
+    moduleCount: number;
+    modules: ReportModule[]; // Top-N modules by size
+}
+
+export interface Report {
+    statsFilePath: string;
+    totalSize: number; // Sum of the filtered assets
+    totalAssetCount: number; // Before filtering
+    filters: { minSizeKb: number, excludePatterns: string[] };
+    warningsCount: number;
+    errorsCount: number;
+    assets: ReportAsset[];
+    duplicates: DuplicatePackage[]; // Whole compilation, not affected by the asset filters
+}
+
+// --- Report Building ---
+
+function toPercentage(part: number, total: number): number {
+    if (total <= 0 || part <= 0) return 0;
+    return Math.max(0, Math.min(100, Number(((part / total) * 100).toFixed(1))));
+}
+
+export function buildReport(statsData: WebpackStatsNative, statsFilePath: string, options: ReportOptions): Report {
+    const filtered = filterAssets(statsData.assets, options.minSizeKb * 1024, options.excludePatterns);
+    const { processedAssets, totalSize } = calculatePercentages(filtered);
+
+    const assets: ReportAsset[] = processedAssets.map(asset => {
+        const modules = getModulesForAsset(statsData, asset.name);
+        const totalModuleSize = modules.reduce((sum, m) => sum + (m.size ?? 0), 0);
+        return {
+            name: asset.name,
+            size: asset.size,
+            percentage: asset.percentage,
+            chunkNames: asset.chunkNames ?? [],
+            moduleCount: modules.length,
+            modules: modules.slice(0, options.topModules).map(mod => ({
+                name: mod.name || mod.identifier,
+                size: mod.size ?? 0,
+                percentage: toPercentage(mod.size ?? 0, totalModuleSize),
+            })),
+        };
+    });
+
+    return {
+        statsFilePath,
+        totalSize,
+        totalAssetCount: statsData.assets.length,
+        filters: { minSizeKb: options.minSizeKb, excludePatterns: options.excludePatterns },
+        warningsCount: statsData.warningsCount ?? statsData.warnings.length,
+        errorsCount: statsData.errorsCount ?? statsData.errors.length,
+        assets,
+        duplicates: findDuplicatePackages(statsData),
+    };
+}
+
+// --- Formatters ---
+
+function escapeMarkdownCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function formatMarkdown(report: Report): string {
+    const lines: string[] = [];
+    lines.push('## Bundle Report', '');
+    lines.push(`**Total size:** ${formatBytes(report.totalSize)} across ${report.assets.length} of ${report.totalAssetCount} assets`);
+    const filterNotes: string[] = [];
+    if (report.filters.minSizeKb > 0) filterNotes.push(`hiding assets < ${report.filters.minSizeKb} KB`);
+    if (report.filters.excludePatterns.length > 0) filterNotes.push(`excluding ${report.filters.excludePatterns.map(p => `\`${p}\``).join(', ')}`);
+    if (filterNotes.length > 0) lines.push(`_Filters: ${filterNotes.join('; ')}_`);
+    if (report.errorsCount > 0 || report.warningsCount > 0) {
+        lines.push(`**Errors:** ${report.errorsCount} · **Warnings:** ${report.warningsCount}`);
+    }
+    lines.push('');
+
+    lines.push('| Asset | Size | % | Chunks |', '| --- | ---: | ---: | --- |');
+    for (const asset of report.assets) {
+        lines.push(`| \`${escapeMarkdownCell(asset.name)}\` | ${formatBytes(asset.size)} | ${asset.percentage}% | ${escapeMarkdownCell(asset.chunkNames.join(', '))} |`);
+    }
+
+    // Collapsible sections keep PR comments short
+    const assetsWithModules = report.assets.filter(a => a.modules.length > 0);
+    if (assetsWithModules.length > 0) lines.push('');
+    for (const asset of assetsWithModules) {
+        lines.push('<details>');
+        lines.push(`<summary>Top ${asset.modules.length} of ${asset.moduleCount} modules in <code>${asset.name.replace(/</g, '&lt;')}</code></summary>`, '');
+        lines.push('| Module | Size | % of asset |', '| --- | ---: | ---: |');
+        for (const mod of asset.modules) {
+            lines.push(`| \`${escapeMarkdownCell(mod.name)}\` | ${formatBytes(mod.size)} | ${mod.percentage}% |`);
+        }
+        lines.push('', '</details>');
+    }
+
+    if (report.duplicates.length > 0) {
+        const wastedSize = report.duplicates.reduce((sum, pkg) => sum + pkg.wastedSize, 0);
+        lines.push('', `### Duplicate packages (${formatBytes(wastedSize)} wasted)`, '');
+        lines.push('| Package | Install paths | Duplicated in chunks | Wasted |', '| --- | --- | --- | ---: |');
+        for (const pkg of report.duplicates) {
+            const installs = pkg.installs.map(install => `\`${escapeMarkdownCell(install.path)}\` (${formatBytes(install.size)})`).join('<br>');
+            lines.push(`| \`${escapeMarkdownCell(pkg.name)}\` | ${installs} | ${escapeMarkdownCell(pkg.duplicatedChunks.join(', '))} | ${formatBytes(pkg.wastedSize)} |`);
+        }
+    }
+    return lines.join('\n');
+}
+
+function escapeCsvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per asset followed by its top modules, then one row per duplicated package; `kind` tells them apart.
+// Duplicate rows hold the wasted bytes in `size` and the install paths in `asset`.
+function formatCsv(report: Report): string {
+    const rows: (string | number)[][] = [['kind', 'asset', 'name', 'size', 'percentage', 'chunkNames']];
+    for (const asset of report.assets) {
+        rows.push(['asset', asset.name, asset.name, asset.size, asset.percentage, asset.chunkNames.join(' ')]);
+        for (const mod of asset.modules) {
+            rows.push(['module', asset.name, mod.name, mod.size, mod.percentage, '']);
+        }
+    }
+    for (const pkg of report.duplicates) {
+        rows.push(['duplicate', pkg.installs.map(install => install.path).join(' '), pkg.name, pkg.wastedSize, '', pkg.duplicatedChunks.join(' ')]);
+    }
+    return rows.map(row => row.map(escapeCsvField).join(',')).join('\n');
+}
+
+export function formatReport(report: Report, format: ReportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(report, null, 2);
+        case 'markdown':
+            return formatMarkdown(report);
+        case 'csv':
+            return formatCsv(report);
+    }
+}
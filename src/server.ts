@@ -0,0 +1,825 @@
+import { timingSafeEqual } from 'node:crypto';
+import { watch, type FSWatcher } from 'node:fs';
+import path from 'node:path';
+import type { BunRequest } from 'bun';
+import { bundleFilterWorker, readTailwindCss, staticAssets } from './static-assets.ts';
+import type { StatsFormat } from './adapters/index.ts';
+import { ALL_COMPILATIONS, formatBytes, getModulesForAsset, getWebpackStatsData, type WebpackAssetNative, type WebpackCompilation, type WebpackModuleNative, type WebpackProblem, type WebpackStatsNative } from './stats.ts';
+import { diffAssetModules, diffStats, formatDelta, matchAssets, type AssetDiff, type StatsDiff } from './diff.ts';
+import { evaluateBudgets, loadBudgetConfig, type BudgetConfig, type BudgetResult } from './budgets.ts';
+import { getCompressedSizes, type CompressedSizes } from './compressed-sizes.ts';
+import { attributeModules, getSourceMapSizes, type AssetSourceMapSizes, type SourceMapAttribution } from './source-maps.ts';
+import { findDuplicatePackages, type DuplicatePackage } from './duplicates.ts';
+import { analyzeChunks, type ChunkAnalysis, type ChunkSummary, type EntrypointSummary } from './chunks.ts';
+import { analyzeTreeShaking, type ConcatenationBailout, type TreeShakingReport, type UnusedExportsModule } from './tree-shaking.ts';
+import { getIssuedModules, type ModuleIndex } from './module-index.ts';
+import { buildImportGraph, findImportChains, type ImportGraph } from './import-chains.ts';
+import { buildModuleSearchIndex, searchModules, type ModuleSearchIndex } from './module-search.ts';
+import { findFirstSizeJump, getHistoryPoints, getSnapshotCompilation, readHistory, type HistorySnapshot } from './history.ts';
+import { buildTreemap, getTreemapBreadcrumb, sliceTreemap, type Treemap } from './treemap.ts';
+import { filterAssets, parseExcludePatterns } from '../public/asset-filters.js';
+
+// Inputs shared by `serve` and `export`
+export interface AnalysisOptions {
+    statsFilePath: string;
+    baselineFilePath: string | null;
+    budgetFilePath: string | null;
+    outputDir: string | null; // Overrides the stats' `outputPath` when looking for emitted files
+    statsFormat: StatsFormat | null; // Skips format detection for the stats and baseline files
+}
+
+export interface ServeOptions extends AnalysisOptions {
+    port: number;
+    host: string; // Interface to listen on, e.g. `0.0.0.0` for a shared machine
+    authToken: string | null; // Required on every /api/* request when set
+    watch: boolean; // Reload the stats file when it changes and notify open browsers
+    historyFilePath: string | null; // Snapshot store written by `record`, for /api/history
+}
+
+// --- Compilation Views ---
+
+interface BaselineSummary {
+    statsFilePath: string;
+    baseTotalSize: number;
+    headTotalSize: number;
+    totalDelta: number;
+    removedAssets: AssetDiff[];
+}
+
+// Asset row for /api/table: the native asset plus optional baseline/budget/compilation annotations
+type TableAsset = WebpackAssetNative & { [annotation: string]: unknown };
+
+// Everything the API serves for one compilation, precomputed at startup
+export interface CompilationView {
+    name: string;
+    statsData: WebpackStatsNative;
+    moduleIndex: ModuleIndex; // Built by the stats loader
+    baseline: { statsData: WebpackStatsNative, diff: StatsDiff, summary: BaselineSummary } | null;
+    budgets: BudgetResult[] | null;
+    hasCompressedSizes: boolean;
+    sourceMaps: Map<string, SourceMapAttribution>; // Asset name -> minified bytes per module, for assets with a source map
+    tableAssets: TableAsset[]; // Assets annotated with baseline, budget, compressed size and source map info when enabled
+    duplicates: DuplicatePackage[];
+    chunkAnalysis: ChunkAnalysis; // Chunks and the initial/async load cost of each entrypoint
+    treeShaking: TreeShakingReport; // Unused exports and concatenation bailouts
+    importGraph: ImportGraph; // Reverse import graph from `reasons`, for "why is this module included?"
+    searchIndex: ModuleSearchIndex; // Every module with its assets and chunks, for /api/modules/search
+}
+
+// The merged "all compilations" view only needs table and config data;
+// asset and module lookups are delegated to the compilation views.
+export interface AllCompilationsView {
+    tableAssets: TableAsset[];
+    warnings: WebpackProblem[];
+    errors: WebpackProblem[];
+    baseline: BaselineSummary | null;
+    budgets: (BudgetResult & { compilation: string })[] | null; // Asset targets carry the compilation prefix of the table
+    hasCompressedSizes: boolean;
+    hasSourceMaps: boolean;
+    duplicates: (DuplicatePackage & { compilation: string })[]; // Only duplicates within a compilation count
+    chunks: (ChunkSummary & { compilation: string })[]; // Chunk IDs are only unique within a compilation
+    entrypoints: (EntrypointSummary & { compilation: string })[];
+    treeShaking: Omit<TreeShakingReport, 'unusedExports' | 'bailouts'> & {
+        unusedExports: (UnusedExportsModule & { compilation: string })[];
+        bailouts: (ConcatenationBailout & { compilation: string })[];
+    };
+}
+
+function createCompilationView(
+    compilation: WebpackCompilation,
+    baselineCompilation: WebpackCompilation | null,
+    baselineFilePath: string | null,
+    budgetConfig: BudgetConfig | null,
+    compressedSizes: Map<string, CompressedSizes> | null,
+    sourceMapSizes: Map<string, AssetSourceMapSizes> | null,
+): CompilationView {
+    const { name, statsData, moduleIndex } = compilation;
+    if (moduleIndex.byIdentifier.size === 0) {
+         console.warn(`No modules found in stats data for "${name}". Dependency lookup will be empty.`);
+    }
+
+    // --- Optional Baseline for Size Deltas ---
+    let baseline: CompilationView['baseline'] = null;
+    if (baselineCompilation && baselineFilePath) {
+        const diff = diffStats(baselineCompilation.statsData, statsData);
+        baseline = {
+            statsData: baselineCompilation.statsData,
+            diff,
+            summary: {
+                statsFilePath: baselineFilePath,
+                baseTotalSize: diff.baseTotalSize,
+                headTotalSize: diff.headTotalSize,
+                totalDelta: diff.totalDelta,
+                removedAssets: diff.assets.filter(a => a.status === 'removed'),
+            },
+        };
+        console.log(`Comparing "${name}" against baseline compilation "${baselineCompilation.name}" (${formatDelta(diff.totalDelta)} total)`);
+    }
+    // --- End Baseline ---
+
+    // --- Optional Size Budgets ---
+    let budgets: BudgetResult[] | null = null;
+    if (budgetConfig) {
+        budgets = evaluateBudgets(statsData, budgetConfig);
+        const failedCount = budgets.filter(r => r.status === 'fail').length;
+        console.log(`Evaluated ${budgets.length} budgets for "${name}": ${failedCount} failed.`);
+    }
+    // --- End Budgets ---
+
+    // Minified bytes per module, from the source maps next to the emitted assets
+    const sourceMaps = new Map<string, SourceMapAttribution>();
+    for (const [assetName, sizes] of sourceMapSizes ?? []) {
+        sourceMaps.set(assetName, attributeModules(sizes, getModulesForAsset(statsData, assetName)));
+    }
+
+    // Lookups by head asset name, so annotating the table stays linear in the number of assets
+    const assetDiffsByName = new Map(baseline?.diff.assets.filter(a => a.headName !== null).map(a => [a.headName!, a]));
+    const failedBudgetsByAsset = new Map<string, BudgetResult[]>();
+    for (const result of budgets ?? []) {
+        if (result.kind !== 'asset' || result.status !== 'fail' || result.target === null) continue;
+        const failed = failedBudgetsByAsset.get(result.target);
+        if (failed) failed.push(result);
+        else failedBudgetsByAsset.set(result.target, [result]);
+    }
+
+    // Assets served to the table, annotated with their baseline size, budget status, compressed sizes and source map sizes when enabled
+    const tableAssets = statsData.assets.map(asset => {
+        const annotated: TableAsset = { ...asset };
+        if (compressedSizes) {
+            const sizes = compressedSizes.get(asset.name);
+            Object.assign(annotated, { gzipSize: sizes?.gzip ?? null, brotliSize: sizes?.brotli ?? null });
+        }
+        if (sourceMaps.size > 0) {
+            const attribution = sourceMaps.get(asset.name);
+            Object.assign(annotated, { mappedSize: attribution?.mappedSize ?? null, unmappedSize: attribution?.unmappedSize ?? null });
+        }
+        if (baseline) {
+            const assetDiff = assetDiffsByName.get(asset.name);
+            Object.assign(annotated, { baseSize: assetDiff?.baseSize ?? 0, sizeDelta: assetDiff?.delta ?? asset.size, diffStatus: assetDiff?.status ?? 'added' });
+        }
+        if (budgets) {
+            const failedBudgets = failedBudgetsByAsset.get(asset.name) ?? [];
+            Object.assign(annotated, { overBudget: failedBudgets.length > 0, budgetMaxSize: failedBudgets.length > 0 ? Math.min(...failedBudgets.map(r => r.maxSize)) : null });
+        }
+        return annotated;
+    });
+
+    const duplicates = findDuplicatePackages(statsData);
+    if (duplicates.length > 0) {
+        const wastedSize = duplicates.reduce((sum, pkg) => sum + pkg.wastedSize, 0);
+        console.log(`Found ${duplicates.length} duplicated packages in "${name}" (${formatBytes(wastedSize)} wasted).`);
+    }
+
+    const treeShaking = analyzeTreeShaking(statsData);
+    if (treeShaking.unusedExports.length > 0) {
+        console.log(`Found ${treeShaking.unusedExports.length} modules with unused exports in "${name}" (about ${formatBytes(treeShaking.estimatedSavings)} removable).`);
+    }
+
+    return {
+        name, statsData, moduleIndex, baseline, budgets, hasCompressedSizes: compressedSizes !== null, sourceMaps, tableAssets, duplicates,
+        chunkAnalysis: analyzeChunks(statsData),
+        treeShaking,
+        importGraph: buildImportGraph(statsData),
+        searchIndex: buildModuleSearchIndex(statsData, moduleIndex.byIdentifier.values()),
+    };
+}
+
+// Asset names in the merged view are prefixed with their compilation, e.g. `client/main.js`
+function prefixAssetName(compilationName: string, assetName: string): string {
+    return `${compilationName}/${assetName}`;
+}
+
+function createAllCompilationsView(views: CompilationView[]): AllCompilationsView {
+    const tableAssets = views
+        .flatMap(view => view.tableAssets.map(asset => ({ ...asset, name: prefixAssetName(view.name, asset.name), compilation: view.name })))
+        .sort((a, b) => (b.size ?? 0) - (a.size ?? 0));
+
+    const baselineViews = views.filter(view => view.baseline);
+    const baseline: BaselineSummary | null = baselineViews.length > 0 ? {
+        statsFilePath: baselineViews[0]!.baseline!.summary.statsFilePath,
+        baseTotalSize: baselineViews.reduce((sum, view) => sum + view.baseline!.summary.baseTotalSize, 0),
+        headTotalSize: baselineViews.reduce((sum, view) => sum + view.baseline!.summary.headTotalSize, 0),
+        totalDelta: baselineViews.reduce((sum, view) => sum + view.baseline!.summary.totalDelta, 0),
+        removedAssets: baselineViews.flatMap(view => view.baseline!.summary.removedAssets.map(asset => ({ ...asset, name: prefixAssetName(view.name, asset.name) }))),
+    } : null;
+
+    const budgetViews = views.filter(view => view.budgets);
+    const budgets = budgetViews.length > 0
+        ? budgetViews.flatMap(view => view.budgets!.map(result => ({
+            ...result,
+            // Entrypoint and chunk names are not asset names, so only asset targets match the prefixed table rows
+            target: result.kind === 'asset' && result.target ? prefixAssetName(view.name, result.target) : result.target,
+            compilation: view.name,
+        })))
+        : null;
+
+    return {
+        tableAssets,
+        warnings: views.flatMap(view => view.statsData.warnings),
+        errors: views.flatMap(view => view.statsData.errors),
+        baseline,
+        budgets,
+        hasCompressedSizes: views.some(view => view.hasCompressedSizes),
+        hasSourceMaps: views.some(view => view.sourceMaps.size > 0),
+        duplicates: views
+            .flatMap(view => view.duplicates.map(pkg => ({ ...pkg, compilation: view.name })))
+            .sort((a, b) => b.wastedSize - a.wastedSize),
+        chunks: views
+            .flatMap(view => view.chunkAnalysis.chunks.map(chunk => ({ ...chunk, compilation: view.name })))
+            .sort((a, b) => b.size - a.size),
+        entrypoints: views
+            .flatMap(view => view.chunkAnalysis.entrypoints.map(entrypoint => ({ ...entrypoint, compilation: view.name })))
+            .sort((a, b) => b.initialSize - a.initialSize),
+        treeShaking: {
+            hasExportInfo: views.some(view => view.treeShaking.hasExportInfo),
+            unusedExports: views
+                .flatMap(view => view.treeShaking.unusedExports.map(mod => ({ ...mod, compilation: view.name })))
+                .sort((a, b) => b.estimatedSavings - a.estimatedSavings),
+            bailouts: views
+                .flatMap(view => view.treeShaking.bailouts.map(mod => ({ ...mod, compilation: view.name })))
+                .sort((a, b) => b.size - a.size),
+            estimatedSavings: views.reduce((sum, view) => sum + view.treeShaking.estimatedSavings, 0),
+        },
+    };
+}
+
+// Baseline compilations are paired by name, falling back to the same position
+function findBaselineCompilation(baselineCompilations: WebpackCompilation[], compilation: WebpackCompilation, index: number): WebpackCompilation | null {
+    return baselineCompilations.find(c => c.name === compilation.name) ?? baselineCompilations[index] ?? null;
+}
+
+// --- Lookup Helpers ---
+
+function findModule(view: CompilationView, moduleIdOrIdentifier: string): WebpackModuleNative | undefined {
+    const { byId, byIdentifier, byName } = view.moduleIndex;
+    // Try by ID (numeric or a string ID like './path'), then by identifier, then by name
+    return byId.get(moduleIdOrIdentifier) ?? byIdentifier.get(moduleIdOrIdentifier) ?? byName.get(moduleIdOrIdentifier);
+}
+
+function getModuleDependencies(view: CompilationView, moduleIdOrIdentifier: string): WebpackModuleNative[] | null {
+    const targetModule = findModule(view, moduleIdOrIdentifier);
+    if (!targetModule) return null;
+    return getDirectDependencies(view, targetModule);
+}
+
+// Children shown when a module is expanded in the asset modal; also precomputed by `export`
+export function getDirectDependencies(view: CompilationView, targetModule: WebpackModuleNative): WebpackModuleNative[] {
+    let directDependencies: WebpackModuleNative[] = [];
+
+    // --- Revised Dependency Logic ---
+    // 1. Check if the target module itself contains concatenated modules
+    if (Array.isArray(targetModule.modules) && targetModule.modules.length > 0) {
+        directDependencies = targetModule.modules;
+    } else {
+        // 2. Fallback: Modules that list the target module as their issuer (by issuerId or issuer identifier)
+        directDependencies = getIssuedModules(view.moduleIndex, targetModule);
+    }
+    // --- End Revised Logic ---
+
+    // Sort dependencies by size (descending)
+    return [...directDependencies].sort((a, b) => (b.size ?? 0) - (a.size ?? 0));
+}
+
+export function getAssetModules(view: CompilationView, assetName: string): WebpackModuleNative[] {
+    let modules = getModulesForAsset(view.statsData, assetName);
+    const { baseline } = view;
+    if (baseline) {
+        // Annotate each module with its size in the matching baseline asset
+        const moduleDiffs = new Map(diffAssetModules(baseline.statsData, view.statsData, baseline.diff, assetName).map(d => [d.name, d]));
+        modules = modules.map(mod => {
+            const moduleDiff = moduleDiffs.get(mod.name || mod.identifier);
+            return { ...mod, baseSize: moduleDiff?.baseSize ?? 0, sizeDelta: moduleDiff?.delta ?? mod.size, diffStatus: moduleDiff?.status ?? 'added' };
+        });
+    }
+    const attribution = view.sourceMaps.get(assetName);
+    if (attribution) {
+        // Bytes the module takes up in the minified asset
+        modules = modules.map(mod => ({ ...mod, mappedSize: attribution.moduleSizes.get(mod.identifier) ?? 0 }));
+    }
+    return modules;
+}
+
+// --- Server State ---
+
+// Everything derived from the stats file. In watch mode a reload builds a complete new state and swaps it in,
+// so requests never see a half-updated set of views.
+export interface ServerState {
+    generation: number; // Incremented on every successful reload
+    statsFilePath: string;
+    views: CompilationView[];
+    defaultView: CompilationView;
+    allView: AllCompilationsView;
+}
+
+// Inputs that do not change while the server is running
+export interface StaticInputs {
+    baselineCompilations: WebpackCompilation[];
+    budgetConfig: BudgetConfig | null;
+}
+
+export async function loadStaticInputs(options: AnalysisOptions): Promise<StaticInputs> {
+    return {
+        baselineCompilations: options.baselineFilePath ? (await getWebpackStatsData(options.baselineFilePath, console.log, options.statsFormat)).compilations : [],
+        budgetConfig: options.budgetFilePath ? await loadBudgetConfig(options.budgetFilePath) : null,
+    };
+}
+
+export async function loadServerState(options: AnalysisOptions, inputs: StaticInputs, generation: number): Promise<ServerState> {
+    // Get the full stats data
+    const { compilations, statsFilePath } = await getWebpackStatsData(options.statsFilePath, console.log, options.statsFormat);
+
+    // Compressed sizes and source maps need the emitted files, found under --output-dir or the stats' outputPath
+    const compressedSizesByCompilation = new Map<string, Map<string, CompressedSizes>>();
+    const sourceMapSizesByCompilation = new Map<string, Map<string, AssetSourceMapSizes>>();
+    for (const { name, statsData } of compilations) {
+        const outputDir = options.outputDir ?? statsData.outputPath;
+        if (!outputDir) {
+            console.log(`No outputPath in stats for "${name}" and no --output-dir given; skipping gzip/brotli sizes and source maps.`);
+            continue;
+        }
+        const sizes = await getCompressedSizes(outputDir, statsData.assets.map(a => a.name));
+        if (sizes.size > 0) compressedSizesByCompilation.set(name, sizes);
+        const sourceMapSizes = await getSourceMapSizes(outputDir, statsData.assets);
+        if (sourceMapSizes.size > 0) sourceMapSizesByCompilation.set(name, sourceMapSizes);
+    }
+
+    const views = compilations.map((compilation, index) => createCompilationView(
+        compilation,
+        options.baselineFilePath ? findBaselineCompilation(inputs.baselineCompilations, compilation, index) : null,
+        options.baselineFilePath,
+        inputs.budgetConfig,
+        compressedSizesByCompilation.get(compilation.name) ?? null,
+        sourceMapSizesByCompilation.get(compilation.name) ?? null,
+    ));
+    return { generation, statsFilePath, views, defaultView: views[0]!, allView: createAllCompilationsView(views) };
+}
+
+// Payload of /api/config without `watch`, which only the server knows
+export function getConfigPayload(state: ServerState, view: CompilationView | typeof ALL_COMPILATIONS) {
+    const isAll = view === ALL_COMPILATIONS;
+    const { allView } = state;
+    return {
+        statsFilePath: state.statsFilePath,
+        compilations: state.views.map(v => v.name),
+        compilation: isAll ? ALL_COMPILATIONS : view.name,
+        warnings: isAll ? allView.warnings : view.statsData.warnings,
+        errors: isAll ? allView.errors : view.statsData.errors,
+        // Baseline summary; per-asset deltas are part of /api/table
+        baseline: isAll ? allView.baseline : view.baseline?.summary ?? null,
+        budgets: isAll ? allView.budgets : view.budgets,
+        // Whether /api/table includes gzipSize/brotliSize
+        hasCompressedSizes: isAll ? allView.hasCompressedSizes : view.hasCompressedSizes,
+        // Whether /api/table, /api/asset-details and /api/treemap include minified sizes from source maps
+        hasSourceMaps: isAll ? allView.hasSourceMaps : view.sourceMaps.size > 0,
+        // Which reload this data belongs to; /api/events pushes reloads in watch mode
+        generation: state.generation,
+    };
+}
+
+// --- Watch Mode ---
+
+// Pushed to the browser over /api/events after a reload
+interface StatsUpdateEvent {
+    generation: number;
+    reloadedAt: string; // ISO timestamp
+    changes: { compilation: string, totalDelta: number, assets: AssetDiff[] }[]; // Only assets that were added, removed or changed
+}
+
+function summarizeReload(previous: ServerState, next: ServerState): StatsUpdateEvent {
+    const changes = next.views.map((view, index) => {
+        const previousView = previous.views.find(v => v.name === view.name) ?? previous.views[index];
+        if (!previousView) return { compilation: view.name, totalDelta: 0, assets: [] };
+        const diff = diffStats(previousView.statsData, view.statsData);
+        return { compilation: view.name, totalDelta: diff.totalDelta, assets: diff.assets.filter(a => a.status !== 'unchanged') };
+    });
+    return { generation: next.generation, reloadedAt: new Date().toISOString(), changes };
+}
+
+// Watches the directory rather than the file: build tools often write a temp file and rename it over the stats file
+function watchStatsFile(statsFilePath: string, onChange: () => void): FSWatcher {
+    const fileName = path.basename(statsFilePath);
+    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    return watch(path.dirname(statsFilePath), (eventType, changedFile) => {
+        if (changedFile !== null && changedFile !== fileName) return;
+        // Writers emit several events per save; wait until they settle
+        if (debounceTimer) clearTimeout(debounceTimer);
+        debounceTimer = setTimeout(onChange, 300);
+    });
+}
+
+/**
+ * Runs `reload` one call at a time. Calls made while a reload runs are merged into one more reload after it,
+ * so the last write to the stats file is always picked up. `reload` is expected to handle its own errors.
+ * @returns A function that starts or queues a reload and resolves once no reload is left to run.
+ */
+export function serializeReloads(reload: () => Promise<void>): () => Promise<void> {
+    let running: Promise<void> | null = null;
+    let reloadPending = false;
+    return () => {
+        if (running) {
+            reloadPending = true; // Reload again once the current one is done
+            return running;
+        }
+        running = (async () => {
+            try {
+                do {
+                    reloadPending = false;
+                    await reload();
+                } while (reloadPending);
+            } finally {
+                running = null;
+            }
+        })();
+        return running;
+    };
+}
+
+// --- Server ---
+
+export async function startServer(options: ServeOptions) {
+    const { statsFilePath } = options;
+    const startTime = performance.now();
+
+    const inputs = await loadStaticInputs(options);
+    let state = await loadServerState(options, inputs, 1);
+    const [tailwindCss, filterWorkerSource] = await Promise.all([readTailwindCss(), bundleFilterWorker()]);
+
+    // Resolves `?compilation=<name>`: no parameter selects the first compilation, `all` the merged view
+    const resolveView = (req: Request): CompilationView | typeof ALL_COMPILATIONS | Response => {
+        const name = new URL(req.url).searchParams.get('compilation');
+        if (!name) return state.defaultView;
+        if (name === ALL_COMPILATIONS) return ALL_COMPILATIONS;
+        return state.views.find(view => view.name === name)
+            ?? Response.json({ error: `Unknown compilation "${name}"`, compilations: state.views.map(view => view.name) }, { status: 404 });
+    };
+
+    // --auth-token: API requests send `Authorization: Bearer <token>`, or `?token=` where headers cannot be set (EventSource).
+    // The page itself is public; it holds no stats data.
+    const expectedToken = options.authToken ? Buffer.from(options.authToken) : null;
+    const checkAuth = (req: Request): Response | null => {
+        if (!expectedToken) return null;
+        const header = req.headers.get('Authorization');
+        const token = Buffer.from(header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : new URL(req.url).searchParams.get('token') ?? '');
+        if (token.length === expectedToken.length && timingSafeEqual(token, expectedToken)) return null;
+        return Response.json({ error: 'Missing or invalid access token' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+    };
+    const withAuth = <T extends Request, S>(handler: (req: T, server: S) => Response | Promise<Response>) =>
+        (req: T, server: S) => checkAuth(req) ?? handler(req, server);
+
+    // Treemaps are built per compilation + filter combination; keep the most recent ones for drill-down requests
+    const TREEMAP_CACHE_SIZE = 8;
+    const treemapCache = new Map<string, Treemap>();
+    const getTreemap = (view: CompilationView | typeof ALL_COMPILATIONS, minSizeKb: number, exclude: string): Treemap => {
+        const cacheKey = JSON.stringify([view === ALL_COMPILATIONS ? ALL_COMPILATIONS : view.name, minSizeKb, exclude]);
+        const cached = treemapCache.get(cacheKey);
+        if (cached) return cached;
+
+        // Same filtering as the asset table
+        const excludePatterns = parseExcludePatterns(exclude);
+        const treemap = buildTreemap((view === ALL_COMPILATIONS ? state.views : [view]).map(v => ({
+            name: v.name,
+            statsData: v.statsData,
+            assets: filterAssets(v.statsData.assets, minSizeKb * 1024, excludePatterns),
+            sourceMaps: v.sourceMaps,
+        })));
+        treemapCache.set(cacheKey, treemap);
+        if (treemapCache.size > TREEMAP_CACHE_SIZE) treemapCache.delete(treemapCache.keys().next().value!);
+        return treemap;
+    };
+
+    // Search results are paginated so a bundle with tens of thousands of modules stays responsive in the browser
+    const SEARCH_PAGE_SIZE = 50;
+    const MAX_SEARCH_PAGE_SIZE = 500;
+
+    // The history store is read on every request, so snapshots recorded while the server runs show up on reload
+    const MIN_JUMP_PERCENT = 10; // Default growth over the previous snapshot that counts as a jump
+    const MIN_JUMP_BYTES = 1024; // Ignore jumps of tiny assets, e.g. 100 B -> 200 B
+    const loadHistory = async (): Promise<HistorySnapshot[] | Response> => {
+        if (!options.historyFilePath) {
+            return Response.json({ error: 'No history store configured. Start the server with --history <file>.' }, { status: 404 });
+        }
+        try {
+            return await readHistory(options.historyFilePath);
+        } catch (error) {
+            return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+        }
+    };
+
+    // --- Server-Sent Events (watch mode) ---
+    const encoder = new TextEncoder();
+    const eventClients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+    const broadcast = (event: string, data: unknown) => {
+        const message = encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        for (const client of eventClients) {
+            try {
+                client.enqueue(message);
+            } catch {
+                eventClients.delete(client); // Browser went away
+            }
+        }
+    };
+
+    const reload = serializeReloads(async () => {
+        try {
+            console.log(`Stats file changed, reloading ${statsFilePath}...`);
+            const next = await loadServerState(options, inputs, state.generation + 1);
+            const update = summarizeReload(state, next);
+            state = next;
+            treemapCache.clear();
+            const changedCount = update.changes.reduce((sum, change) => sum + change.assets.length, 0);
+            console.log(`Reloaded stats (generation ${next.generation}): ${changedCount} assets changed.`);
+            broadcast('stats-updated', update);
+        } catch (error) {
+            // Invalid or half-written JSON: keep serving the previous data until the next write
+            console.warn(`Could not reload stats, keeping the previous data: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    if (options.watch) watchStatsFile(statsFilePath, () => void reload());
+
+    const server = Bun.serve({
+        port: options.port,
+        hostname: options.host,
+        routes: {
+            // Serve static HTML for the root using the imported content
+            "/": (req) => {
+                return new Response(staticAssets.html, {
+                    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+                });
+            },
+
+            // Serve the worker bundled with the filtering module it imports
+            "/filter.worker.js": (req) => {
+                return new Response(filterWorkerSource, {
+                    headers: { 'Content-Type': 'application/javascript; charset=utf-8' }
+                });
+            },
+
+            // Tailwind and Vue are bundled so the interface works without network access
+            "/tailwind.css": (req) => {
+                return new Response(tailwindCss, {
+                    headers: { 'Content-Type': 'text/css; charset=utf-8' }
+                });
+            },
+            "/vendor/vue.global.prod.js": (req) => {
+                return new Response(staticAssets.vue, {
+                    headers: { 'Content-Type': 'application/javascript; charset=utf-8' }
+                });
+            },
+
+            // API endpoint for table data (returns ALL assets of the selected compilation)
+            "/api/table": withAuth(async (req) => {
+                const view = resolveView(req);
+                if (view instanceof Response) return view;
+                // Return the pre-loaded assets. Filtering happens client-side.
+                return Response.json(view === ALL_COMPILATIONS ? state.allView.tableAssets : view.tableAssets);
+            }),
+
+            // API endpoint for configuration info (stats path, compilations, warnings, errors)
+            "/api/config": withAuth((req: BunRequest) => {
+                const view = resolveView(req);
+                if (view instanceof Response) return view;
+                return Response.json({ ...getConfigPayload(state, view), watch: options.watch, hasHistory: options.historyFilePath !== null });
+            }),
+
+            // API endpoint for asset details (modules)
+            // Using typed BunRequest as per documentation example
+            "/api/asset-details/:assetName": withAuth((req: BunRequest<"/api/asset-details/:assetName">) => {
+                 // Params are directly available on req.params with type safety
+                 const { assetName: encodedAssetName } = req.params;
+                 if (!encodedAssetName) {
+                      return Response.json({ error: 'Missing asset name' }, { status: 400 });
+                 }
+                 const view = resolveView(req);
+                 if (view instanceof Response) return view;
+                 const assetName = decodeURIComponent(encodedAssetName);
+                 // The merged view prefixes asset names with their compilation
+                 const owner = view === ALL_COMPILATIONS ? state.views.find(v => assetName.startsWith(`${v.name}/`)) : view;
+                 const ownAssetName = owner && view === ALL_COMPILATIONS ? assetName.slice(owner.name.length + 1) : assetName;
+                 if (!owner || !owner.statsData.assets.some(asset => asset.name === ownAssetName)) {
+                     return Response.json({ error: `Unknown asset "${assetName}"` }, { status: 404 });
+                 }
+                 return Response.json(getAssetModules(owner, ownAssetName));
+            }),
+
+            // API endpoint for module dependencies (children)
+            "/api/module-dependencies/:moduleIdOrIdentifier": withAuth((req: BunRequest<"/api/module-dependencies/:moduleIdOrIdentifier">) => {
+                 const { moduleIdOrIdentifier: encodedId } = req.params;
+                 if (!encodedId) {
+                     return Response.json({ error: 'Missing module ID or identifier' }, { status: 400 });
+                 }
+                 const view = resolveView(req);
+                 if (view instanceof Response) return view;
+                 const moduleIdOrIdentifier = decodeURIComponent(encodedId);
+
+                 // Module IDs are only unique within a compilation, so the merged view takes the first match
+                 const candidates = view === ALL_COMPILATIONS ? state.views : [view];
+                 for (const candidate of candidates) {
+                     const dependencies = getModuleDependencies(candidate, moduleIdOrIdentifier);
+                     if (dependencies) return Response.json(dependencies);
+                 }
+                 return Response.json({ error: `Unknown module "${moduleIdOrIdentifier}"` }, { status: 404 });
+            }),
+
+            // Server-sent events: `stats-updated` after every reload in watch mode
+            "/api/events": withAuth((req, server) => {
+                server.timeout(req, 0); // Keep the stream open past the idle timeout
+                let streamController: ReadableStreamDefaultController<Uint8Array>;
+                const stream = new ReadableStream<Uint8Array>({
+                    start(controller) {
+                        streamController = controller;
+                        eventClients.add(controller);
+                        controller.enqueue(encoder.encode(`event: hello\ndata: ${JSON.stringify({ generation: state.generation })}\n\n`));
+                    },
+                    cancel() {
+                        eventClients.delete(streamController);
+                    },
+                });
+                return new Response(stream, {
+                    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' }
+                });
+            }),
+
+            // API endpoint for packages bundled from several install paths or into several chunks
+            "/api/duplicates": withAuth((req) => {
+                const view = resolveView(req);
+                if (view instanceof Response) return view;
+                return Response.json(view === ALL_COMPILATIONS ? state.allView.duplicates : view.duplicates);
+            }),
+
+            // API endpoint for chunks: files, download size, parents/children and their largest modules
+            "/api/chunks": withAuth((req) => {
+                const view = resolveView(req);
+                if (view instanceof Response) return view;
+                return Response.json(view === ALL_COMPILATIONS ? state.allView.chunks : view.chunkAnalysis.chunks);
+            }),
+
+            // API endpoint for entrypoints: initial cost (shared vs entry-only chunks) and the tree of async chunks
+            "/api/entrypoints": withAuth((req) => {
+                const view = resolveView(req);
+                if (view instanceof Response) return view;
+                return Response.json(view === ALL_COMPILATIONS ? state.allView.entrypoints : view.chunkAnalysis.entrypoints);
+            }),
+
+            // API endpoint for modules with unused exports and modules that bailed out of concatenation
+            "/api/tree-shaking": withAuth((req) => {
+                const view = resolveView(req);
+                if (view instanceof Response) return view;
+                return Response.json(view === ALL_COMPILATIONS ? state.allView.treeShaking : view.treeShaking);
+            }),
+
+            // API endpoint for "why is this module included?": every import path from an entrypoint to the module
+            "/api/import-chains/:moduleIdOrIdentifier": withAuth((req: BunRequest<"/api/import-chains/:moduleIdOrIdentifier">) => {
+                 const view = resolveView(req);
+                 if (view instanceof Response) return view;
+                 const moduleIdOrIdentifier = decodeURIComponent(req.params.moduleIdOrIdentifier);
+
+                 const candidates = view === ALL_COMPILATIONS ? state.views : [view];
+                 for (const candidate of candidates) {
+                     // Inner modules of concatenated modules are only known to the import graph
+                     const identifier = candidate.importGraph.modulesByIdentifier.has(moduleIdOrIdentifier)
+                         ? moduleIdOrIdentifier
+                         : findModule(candidate, moduleIdOrIdentifier)?.identifier;
+                     const result = identifier ? findImportChains(candidate.importGraph, identifier) : null;
+                     if (result) return Response.json(result);
+                 }
+                 return Response.json({ error: `Unknown module "${moduleIdOrIdentifier}"` }, { status: 404 });
+            }),
+
+            // API endpoint for searching modules across every asset
+            // Query: q (see parseModuleQuery), offset & limit (one page of the matches, largest first)
+            "/api/modules/search": withAuth((req) => {
+                 const view = resolveView(req);
+                 if (view instanceof Response) return view;
+                 const params = new URL(req.url).searchParams;
+                 const offset = Number.parseInt(params.get('offset') ?? '0', 10);
+                 const limit = Number.parseInt(params.get('limit') ?? String(SEARCH_PAGE_SIZE), 10);
+                 if (Number.isNaN(offset) || offset < 0 || Number.isNaN(limit) || limit < 1) {
+                     return Response.json({ error: 'offset must be 0 or more and limit 1 or more' }, { status: 400 });
+                 }
+
+                 const sources = view === ALL_COMPILATIONS
+                     ? state.views.map(v => ({ index: v.searchIndex, compilation: v.name }))
+                     : [{ index: view.searchIndex }];
+                 let page;
+                 try {
+                     page = searchModules(sources, params.get('q') ?? '', offset, Math.min(limit, MAX_SEARCH_PAGE_SIZE));
+                 } catch (error) {
+                     return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+                 }
+                 if (view === ALL_COMPILATIONS) {
+                     // Same asset names as the merged table
+                     page.results = page.results.map(result => ({ ...result, assets: result.assets.map(asset => prefixAssetName(result.compilation!, asset)) }));
+                 }
+                 return Response.json(page);
+            }),
+
+            // API endpoint for the size trend across the snapshots in the history store
+            // Query: asset (also return its size per snapshot and the first jump), threshold (jump size in percent)
+            "/api/history": withAuth(async (req) => {
+                 const view = resolveView(req);
+                 if (view instanceof Response) return view;
+                 const snapshots = await loadHistory();
+                 if (snapshots instanceof Response) return snapshots;
+                 const params = new URL(req.url).searchParams;
+                 const assetName = params.get('asset') || null;
+                 const threshold = Number.parseFloat(params.get('threshold') ?? String(MIN_JUMP_PERCENT));
+                 if (Number.isNaN(threshold) || threshold < 0) {
+                     return Response.json({ error: `Invalid threshold "${params.get('threshold')}"` }, { status: 400 });
+                 }
+
+                 const points = getHistoryPoints(snapshots, view === ALL_COMPILATIONS ? ALL_COMPILATIONS : view.name, assetName);
+                 return Response.json({
+                     asset: assetName,
+                     threshold,
+                     points,
+                     firstJump: assetName ? findFirstSizeJump(points, threshold, MIN_JUMP_BYTES) : null,
+                 });
+            }),
+
+            // API endpoint for one snapshot's assets, chunks and packages, with the change since the previous snapshot
+            "/api/history/:label": withAuth(async (req: BunRequest<"/api/history/:label">) => {
+                 const view = resolveView(req);
+                 if (view instanceof Response) return view;
+                 const snapshots = await loadHistory();
+                 if (snapshots instanceof Response) return snapshots;
+                 const label = decodeURIComponent(req.params.label);
+                 const compilationName = view === ALL_COMPILATIONS ? ALL_COMPILATIONS : view.name;
+
+                 const index = snapshots.findIndex(snapshot => snapshot.label === label);
+                 const compilation = index === -1 ? null : getSnapshotCompilation(snapshots[index]!, compilationName);
+                 if (!compilation) {
+                     return Response.json({ error: `No snapshot "${label}" for compilation "${compilationName}"` }, { status: 404 });
+                 }
+                 const previousSnapshot = snapshots.slice(0, index).reverse().find(snapshot => getSnapshotCompilation(snapshot, compilationName));
+                 const previous = previousSnapshot ? getSnapshotCompilation(previousSnapshot, compilationName)! : null;
+                 // Asset names change with their content hash; match them as `diff` does
+                 const previousSizes = new Map(previous?.assets.map(asset => [asset.name, asset.size]));
+                 const assetMatches = matchAssets([...previousSizes.keys()], compilation.assets.map(asset => asset.name));
+                 return Response.json({
+                     label,
+                     recordedAt: snapshots[index]!.recordedAt,
+                     statsFilePath: snapshots[index]!.statsFilePath,
+                     previousLabel: previousSnapshot?.label ?? null,
+                     totalSize: compilation.totalSize,
+                     totalDelta: previous ? compilation.totalSize - previous.totalSize : null,
+                     assets: compilation.assets.map(asset => {
+                         const previousName = assetMatches.get(asset.name);
+                         const previousSize = previousName === undefined ? null : previousSizes.get(previousName)!;
+                         return { ...asset, delta: previous ? asset.size - (previousSize ?? 0) : null, isNew: previous !== null && previousSize === null };
+                     }),
+                     chunks: compilation.chunks,
+                     packages: compilation.packages,
+                 });
+            }),
+
+            // API endpoint for the treemap/sunburst hierarchy (asset -> chunk -> module path -> concatenated modules)
+            // Query: minSizeKb & exclude (same filters as the table), node (id to drill into), depth (levels to return)
+            "/api/treemap": withAuth((req) => {
+                 const view = resolveView(req);
+                 if (view instanceof Response) return view;
+                 const params = new URL(req.url).searchParams;
+                 const minSizeKb = Number.parseFloat(params.get('minSizeKb') ?? '0');
+                 const depth = Number.parseInt(params.get('depth') ?? '2', 10);
+                 const treemap = getTreemap(view, Number.isNaN(minSizeKb) ? 0 : Math.max(0, minSizeKb), params.get('exclude') ?? '');
+
+                 const nodeParam = params.get('node');
+                 const node = nodeParam === null ? treemap.root : treemap.nodesById.get(Number(nodeParam));
+                 if (!node) {
+                     return Response.json({ error: `Unknown treemap node "${nodeParam}"` }, { status: 404 });
+                 }
+                 return Response.json({
+                     breadcrumb: getTreemapBreadcrumb(node),
+                     node: sliceTreemap(node, Number.isNaN(depth) ? 2 : Math.min(Math.max(depth, 1), 4), 100),
+                 });
+            }),
+        },
+        // Fallback for routes not defined above
+        fetch(req: Request) {
+            const { pathname } = new URL(req.url);
+            if (pathname.startsWith('/api/')) {
+                return checkAuth(req) ?? Response.json({ error: `Unknown API endpoint "${pathname}"` }, { status: 404 });
+            }
+            return new Response("Not Found", { status: 404 });
+        },
+        error(error: Error): Response | Promise<Response> {
+            console.error("Server startup/connection error:", error);
+            return Response.json({ error: 'Internal server error' }, { status: 500 });
+        },
+    });
+
+    console.log(`Server running at http://${server.hostname}:${server.port}`);
+    const { views, allView } = state;
+    console.log(`Serving analysis for: ${statsFilePath}${views.length > 1 ? ` (${views.length} compilations: ${views.map(v => v.name).join(', ')})` : ''}`);
+    if (options.baselineFilePath) console.log(`Size deltas relative to: ${options.baselineFilePath}`);
+    if (options.watch) console.log(`Watching ${statsFilePath} for changes.`);
+    if (options.authToken) console.log('API requests require the access token (open the page with ?token=<token>).');
+    else if (!['localhost', '127.0.0.1', '::1'].includes(options.host)) console.warn(`Warning: serving on ${options.host} without --auth-token; anyone who can reach this port can read the stats.`);
+    const peakMemory = process.resourceUsage().maxRSS * 1024; // maxRSS is in KB
+    console.log(`Ready in ${Math.round(performance.now() - startTime)}ms (peak memory ${formatBytes(peakMemory)}).`);
+    const warningsCount = allView.warnings.length;
+    const errorsCount = allView.errors.length;
+    if (warningsCount > 0) console.warn(`Note: ${warningsCount} warnings found in stats file.`);
+    if (errorsCount > 0) console.error(`Error: ${errorsCount} errors found in stats file.`);
+
+    return server;
+}
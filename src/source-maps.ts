@@ -0,0 +1,214 @@
+import path from 'node:path';
+import type { WebpackAssetNative, WebpackModuleNative } from './stats.ts';
+
+// --- Source Map Interfaces ---
+
+// Bytes of one emitted file, attributed to the original sources through its source map
+export interface AssetSourceMapSizes {
+    totalSize: number; // Bytes of the emitted file
+    sources: Map<string, number>; // Normalized source path -> bytes generated from it
+    unmappedSize: number; // Bytes without a mapping, or mapped to no source (e.g. line breaks, minifier glue)
+}
+
+// Source map bytes of one asset, matched to the modules in it
+export interface SourceMapAttribution {
+    totalSize: number;
+    mappedSize: number; // Bytes attributed to modules of the stats file
+    unmappedSize: number; // Everything else: webpack's runtime and bootstrap, unmapped bytes, sources without a module
+    moduleSizes: Map<string, number>; // Module identifier -> bytes; concatenated modules hold the sum of their inner modules
+}
+
+// Assets that can carry a source map
+const SOURCE_MAPPED_EXTENSIONS = /\.(?:m?js|cjs|css)$/i;
+
+// --- Mapping Decoding ---
+
+const BASE64_VALUES = new Map([...'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'].map((char, index) => [char, index]));
+
+/**
+ * Decodes the `mappings` of a source map into the generated column and source index of each segment,
+ * per generated line. Segments without a source have source index -1.
+ */
+export function decodeMappings(mappings: string): { column: number, source: number }[][] {
+    const lines: { column: number, source: number }[][] = [];
+    let source = 0; // Source indexes are relative to the previous segment across lines; columns restart per line
+    for (const line of mappings.split(';')) {
+        const segments: { column: number, source: number }[] = [];
+        let column = 0;
+        for (const segment of line.split(',')) {
+            if (!segment) continue;
+            // Base64 VLQ: 5 data bits per character, bit 6 continues the value, the lowest bit of a value is its sign
+            const values: number[] = [];
+            let value = 0;
+            let shift = 0;
+            for (const char of segment) {
+                const digit = BASE64_VALUES.get(char);
+                if (digit === undefined) throw new Error(`Invalid source map: unexpected character "${char}" in mappings`);
+                value += (digit & 31) << shift;
+                if (digit & 32) {
+                    shift += 5;
+                } else {
+                    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+                    value = 0;
+                    shift = 0;
+                }
+            }
+            column += values[0] ?? 0;
+            if (values.length >= 4) {
+                source += values[1]!;
+                segments.push({ column, source });
+            } else {
+                segments.push({ column, source: -1 });
+            }
+        }
+        lines.push(segments.sort((a, b) => a.column - b.column));
+    }
+    return lines;
+}
+
+// --- Source Paths ---
+
+/**
+ * Normalizes a source map source or module name for matching: no bundler scheme, loaders, query or
+ * leading `./`, `../` and `/`. `webpack://app/./src/a.js?vue` -> `src/a.js`
+ */
+export function normalizeSourcePath(source: string): string {
+    return source
+        .replace(/^webpack:\/\/[^/]*\//, '')
+        .split('!').at(-1)!
+        .replace(/[?#].*$/, '')
+        .replace(/\\/g, '/')
+        .replace(/^(?:\.\.?\/|\/)+/, '');
+}
+
+// --- Attribution ---
+
+function isAscii(text: string): boolean {
+    return !/[^\x00-\x7f]/.test(text);
+}
+
+/**
+ * Attributes every byte of a generated file to the source its mapping points at, like source-map-explorer:
+ * a segment owns the bytes up to the next segment on its line. Columns count UTF-16 code units, so lines with
+ * non-ASCII characters are measured in UTF-8 bytes.
+ */
+export function attributeSourceMapBytes(code: string, map: { sources: string[], mappings: string }): AssetSourceMapSizes {
+    const sourceNames = map.sources.map(source => normalizeSourcePath(source ?? ''));
+    const sources = new Map<string, number>();
+    const codeLines = code.split('\n');
+    const mappingLines = decodeMappings(map.mappings);
+    let unmappedSize = codeLines.length - 1; // Line breaks
+
+    codeLines.forEach((line, lineIndex) => {
+        const ascii = isAscii(line);
+        const byteLength = (start: number, end: number) => ascii ? end - start : Buffer.byteLength(line.slice(start, end));
+        const segments = mappingLines[lineIndex] ?? [];
+        unmappedSize += byteLength(0, Math.min(segments[0]?.column ?? line.length, line.length));
+        segments.forEach((segment, index) => {
+            const start = Math.min(segment.column, line.length);
+            const end = Math.min(segments[index + 1]?.column ?? line.length, line.length);
+            if (end <= start) return;
+            const sourceName = sourceNames[segment.source];
+            if (segment.source < 0 || sourceName === undefined) unmappedSize += byteLength(start, end);
+            else sources.set(sourceName, (sources.get(sourceName) ?? 0) + byteLength(start, end));
+        });
+    });
+
+    return { totalSize: Buffer.byteLength(code), sources, unmappedSize };
+}
+
+/**
+ * Matches source map sources to the modules of an asset. Sources are matched by module name, or by the
+ * resource path of the module identifier when the name does not match (e.g. absolute source paths).
+ * Each source is attributed to one module at most, so the module sizes never add up to more than the file.
+ */
+export function attributeModules(sizes: AssetSourceMapSizes, modules: WebpackModuleNative[]): SourceMapAttribution {
+    // Sources by file name, for suffix matches such as `/home/ci/app/src/a.js` <-> `src/a.js`
+    const sourcesByBaseName = new Map<string, string[]>();
+    for (const source of sizes.sources.keys()) {
+        const baseName = source.slice(source.lastIndexOf('/') + 1);
+        sourcesByBaseName.set(baseName, [...(sourcesByBaseName.get(baseName) ?? []), source]);
+    }
+    const findSource = (modulePath: string): string | undefined => {
+        const normalized = normalizeSourcePath(modulePath);
+        if (!normalized) return undefined;
+        if (sizes.sources.has(normalized)) return normalized;
+        const candidates = sourcesByBaseName.get(normalized.slice(normalized.lastIndexOf('/') + 1)) ?? [];
+        return candidates.find(source => source.endsWith(`/${normalized}`) || normalized.endsWith(`/${source}`));
+    };
+
+    const claimedSources = new Set<string>();
+    const moduleSizes = new Map<string, number>();
+    const attribute = (mod: WebpackModuleNative): number => {
+        if (Array.isArray(mod.modules) && mod.modules.length > 0) {
+            const size = mod.modules.reduce((sum, inner) => sum + attribute(inner), 0);
+            moduleSizes.set(mod.identifier, size);
+            return size;
+        }
+        // Rspack prefixes identifiers with the module type, e.g. `javascript/esm|/project/src/a.js`
+        const resource = (mod.identifier ?? '').split('!').at(-1)!.split('|').at(-1)!;
+        const source = findSource(mod.name || '') ?? findSource(resource);
+        const size = source && !claimedSources.has(source) ? sizes.sources.get(source)! : 0;
+        if (source) claimedSources.add(source);
+        moduleSizes.set(mod.identifier, size);
+        return size;
+    };
+    const mappedSize = modules.reduce((sum, mod) => sum + attribute(mod), 0);
+
+    return { totalSize: sizes.totalSize, mappedSize, unmappedSize: sizes.totalSize - mappedSize, moduleSizes };
+}
+
+// --- Loading ---
+
+// The map referenced by the file's `sourceMappingURL` comment (a path or an inline data URL), else `<file>.map`
+async function readSourceMap(filePath: string, code: string): Promise<unknown | null> {
+    const url = code.slice(-4096).match(/[#@]\s*sourceMappingURL=([^\s*]+)\s*(?:\*\/\s*)?$/)?.[1];
+    if (url?.startsWith('data:')) {
+        const [header, payload = ''] = url.split(',', 2);
+        const json = header!.endsWith(';base64') ? Buffer.from(payload, 'base64').toString('utf8') : decodeURIComponent(payload);
+        return JSON.parse(json);
+    }
+    const mapFile = Bun.file(url ? path.resolve(path.dirname(filePath), decodeURIComponent(url.split('?')[0]!)) : `${filePath}.map`);
+    return (await mapFile.exists()) ? await mapFile.json() : null;
+}
+
+function isSourceMap(value: unknown): value is { sources: string[], mappings: string } {
+    return typeof value === 'object' && value !== null
+        && 'sources' in value && Array.isArray(value.sources)
+        && 'mappings' in value && typeof value.mappings === 'string';
+}
+
+/**
+ * Reads the source maps of the emitted JS and CSS assets under `outputDir` and attributes their bytes to sources.
+ * Assets without a file or without a readable source map are left out of the result.
+ */
+export async function getSourceMapSizes(outputDir: string, assets: WebpackAssetNative[], log: (message: string) => void = console.log): Promise<Map<string, AssetSourceMapSizes>> {
+    const startTime = performance.now();
+    const result = new Map<string, AssetSourceMapSizes>();
+    let failedCount = 0;
+
+    for (const asset of assets) {
+        if (!SOURCE_MAPPED_EXTENSIONS.test(asset.name.split('?')[0]!)) continue;
+        const filePath = path.resolve(outputDir, asset.name.split('?')[0]!);
+        const file = Bun.file(filePath);
+        if (!(await file.exists())) continue;
+
+        try {
+            const code = await file.text();
+            const map = await readSourceMap(filePath, code);
+            if (map === null) continue;
+            if (!isSourceMap(map)) throw new Error("'sources' or 'mappings' missing");
+            result.set(asset.name, attributeSourceMapBytes(code, map));
+        } catch (error) {
+            // Index maps (`sections`) and broken maps: keep going without this asset
+            failedCount++;
+            log(`Could not read the source map of ${asset.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    if (result.size > 0 || failedCount > 0) {
+        const elapsed = Math.round(performance.now() - startTime);
+        log(`Source maps for ${result.size} assets in ${outputDir} (${failedCount} unreadable) in ${elapsed}ms.`);
+    }
+    return result;
+}
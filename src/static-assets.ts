@@ -0,0 +1,47 @@
+import path from 'node:path';
+// Files of the web interface, embedded as text so neither `serve` nor `export` needs network access at runtime
+// (see text-imports.d.ts for their types)
+import staticHtmlContent from '../public/index.html' with { type: 'text' }; // Import HTML content directly
+import staticVueContent from 'vue/dist/vue.global.prod.js' with { type: 'text' }; // Vue global build from node_modules
+
+export const staticAssets = {
+    html: staticHtmlContent,
+    vue: staticVueContent,
+};
+
+// Scripts from public/ are bundled and minified so they can be inlined or served as a single file
+async function bundlePublicScript(fileName: string): Promise<string> {
+    const result = await Bun.build({
+        entrypoints: [path.join(import.meta.dir, '../public', fileName)],
+        target: 'browser',
+        minify: true,
+    });
+    const output = result.outputs[0];
+    if (!result.success || !output) {
+        throw new Error(`Could not bundle ${fileName}: ${result.logs.map(String).join('\n')}`);
+    }
+    return output.text();
+}
+
+// The worker imports asset-filters.js, which the CLI commands import as code; bundle both into one script,
+// which also lets exported files run it from a Blob URL
+export function bundleFilterWorker(): Promise<string> {
+    return bundlePublicScript('filter.worker.js');
+}
+
+// API replacement for exported reports. It is read through the bundler rather than imported as text
+// because its `.js` import would resolve to the script itself for the type-checker.
+export function bundleStaticExport(): Promise<string> {
+    return bundlePublicScript('static-export.js');
+}
+
+// Tailwind output is a build artifact (`bun run build:css`, also run on install and before `bun start`), so it is read from disk
+const TAILWIND_CSS_PATH = path.join(import.meta.dir, '../public/tailwind.css');
+
+export async function readTailwindCss(): Promise<string> {
+    const file = Bun.file(TAILWIND_CSS_PATH);
+    if (!(await file.exists())) {
+        throw new Error(`Stylesheet not found at ${TAILWIND_CSS_PATH}; run \`bun run build:css\` first`);
+    }
+    return file.text();
+}
@@ -0,0 +1,319 @@
+import { ModuleIndexBuilder, type ModuleIndex } from './module-index.ts';
+import type { WebpackModuleNative, WebpackStatsNative } from './stats.ts';
+
+// --- Streaming Stats Parser ---
+// Parses a stats JSON file chunk by chunk instead of materializing the whole document with JSON.parse.
+// Only the fields the server reads are kept (see the *_FIELDS sets); everything else, most notably
+// module `source`, is scanned and dropped without being decoded. Modules listed both in `chunks[].modules`
+// and in the top-level `modules` array are stored once, and the module indexes are filled as modules arrive.
+
+// Fields kept per object kind. Values below these fields are kept as-is.
+const STATS_FIELDS = new Set(['version', 'hash', 'time', 'builtAt', 'outputPath', 'publicPath', 'name', 'entrypoints', 'errors', 'errorsCount', 'warnings', 'warningsCount', 'filteredAssets', 'filteredModules']);
+const ASSET_FIELDS = new Set(['name', 'size', 'chunks', 'chunkNames', 'emitted', 'filteredAssets', 'filteredModules']);
+const CHUNK_FIELDS = new Set(['id', 'rendered', 'initial', 'entry', 'extraAsync', 'size', 'names', 'files', 'hash', 'parents', 'filteredModules', 'origins']);
+const MODULE_FIELDS = new Set([
+    'id', 'identifier', 'name', 'index', 'index2', 'size', 'cacheable', 'built', 'optional', 'prefetched', 'chunks', 'assets',
+    'issuer', 'issuerId', 'issuerName', 'failed', 'errors', 'warnings', 'reasons', 'usedExports', 'providedExports', 'optimizationBailout', 'orphan', 'descriptionData', 'depth',
+]);
+
+// What a value is, which decides which of its fields are kept
+type Role =
+    | 'stats' | 'statsList'
+    | 'asset' | 'assetList'
+    | 'chunk' | 'chunkList'
+    | 'module' | 'moduleList' | 'chunkModuleList' | 'innerModuleList'
+    | 'keep' | 'skip';
+
+const ARRAY_ELEMENT_ROLES: Partial<Record<Role, Role>> = {
+    statsList: 'stats',
+    assetList: 'asset',
+    chunkList: 'chunk',
+    moduleList: 'module',
+    chunkModuleList: 'module',
+    innerModuleList: 'module',
+    keep: 'keep',
+    skip: 'skip',
+};
+
+function getFieldRole(role: Role, key: string): Role {
+    switch (role) {
+        case 'stats':
+            if (key === 'assets') return 'assetList';
+            if (key === 'chunks') return 'chunkList';
+            if (key === 'modules') return 'moduleList';
+            if (key === 'children') return 'statsList';
+            return STATS_FIELDS.has(key) ? 'keep' : 'skip';
+        case 'asset':
+            return ASSET_FIELDS.has(key) ? 'keep' : 'skip';
+        case 'chunk':
+            if (key === 'modules') return 'chunkModuleList';
+            return CHUNK_FIELDS.has(key) ? 'keep' : 'skip';
+        case 'module':
+            if (key === 'modules') return 'innerModuleList'; // Concatenated modules
+            return MODULE_FIELDS.has(key) ? 'keep' : 'skip';
+        case 'skip':
+            return 'skip';
+        default:
+            return 'keep';
+    }
+}
+
+const isObjectRole = (role: Role) => role === 'stats' || role === 'asset' || role === 'chunk' || role === 'module';
+const isArrayRole = (role: Role) => role in ARRAY_ELEMENT_ROLES && role !== 'keep' && role !== 'skip';
+
+interface Frame {
+    container: Record<string, unknown> | unknown[] | null; // null while skipping
+    isArray: boolean;
+    role: Role;
+    key: string | null; // Key of the member being parsed (objects only)
+    modules: ModuleIndexBuilder | null; // Index of the enclosing compilation
+}
+
+// What the parser expects next
+type Expect = 'value' | 'firstKeyOrEnd' | 'key' | 'colon' | 'commaOrEnd' | 'firstValueOrEnd' | 'done';
+
+const CHAR_QUOTE = 0x22, CHAR_BACKSLASH = 0x5c, CHAR_COMMA = 0x2c, CHAR_COLON = 0x3a;
+const CHAR_OPEN_BRACE = 0x7b, CHAR_CLOSE_BRACE = 0x7d, CHAR_OPEN_BRACKET = 0x5b, CHAR_CLOSE_BRACKET = 0x5d;
+const isWhitespace = (byte: number) => byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09;
+const isNumberByte = (byte: number) => (byte >= 0x30 && byte <= 0x39) || byte === 0x2d || byte === 0x2b || byte === 0x2e || byte === 0x65 || byte === 0x45;
+const isLiteralByte = (byte: number) => byte >= 0x61 && byte <= 0x7a;
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+function countBackslashesBefore(chunk: Uint8Array, index: number, start: number): number {
+    let count = 0;
+    for (let k = index - 1; k >= start && chunk[k] === CHAR_BACKSLASH; k--) count++;
+    return count;
+}
+
+export class StatsStreamParser {
+    private readonly decoder = new TextDecoder();
+    private readonly stack: Frame[] = [];
+    private expect: Expect = 'value';
+    private result: unknown = undefined;
+    private offset = 0; // Bytes of previous chunks, for error messages
+    private position = 0; // Position in the current chunk when a token ends
+    readonly moduleIndexes = new Map<WebpackStatsNative, ModuleIndex>();
+
+    // Token spanning chunk boundaries
+    private token: 'string' | 'number' | 'literal' | null = null;
+    private tokenParts: Uint8Array[] | null = null; // null when the string is skipped
+    private tokenText = ''; // Numbers and literals
+    private stringEscaped = false; // Previous byte was a backslash
+    private stringHasEscapes = false;
+
+    write(chunk: Uint8Array) {
+        let start = 0;
+        // Skip a UTF-8 byte order mark
+        if (this.offset === 0 && chunk[0] === 0xef && chunk[1] === 0xbb && chunk[2] === 0xbf) start = 3;
+
+        for (let i = start; i < chunk.length; i++) {
+            const byte = chunk[i]!;
+
+            if (this.token === 'string') {
+                // Find the closing quote with the native indexOf; a quote preceded by an odd number of backslashes is escaped
+                const scanStart = this.stringEscaped ? i + 1 : i; // The first byte was escaped at the end of the previous chunk
+                if (this.stringEscaped) this.stringHasEscapes = true;
+                let end = scanStart;
+                for (;;) {
+                    end = chunk.indexOf(CHAR_QUOTE, end);
+                    if (end === -1 || countBackslashesBefore(chunk, end, scanStart) % 2 === 0) break;
+                    end++;
+                }
+                const stringEnd = end === -1 ? chunk.length : end;
+                if (this.tokenParts) {
+                    const part = chunk.subarray(i, stringEnd);
+                    if (part.indexOf(CHAR_BACKSLASH) !== -1) this.stringHasEscapes = true;
+                    this.tokenParts.push(part);
+                }
+                if (end === -1) {
+                    // String continues in the next chunk
+                    this.stringEscaped = scanStart < chunk.length && countBackslashesBefore(chunk, chunk.length, scanStart) % 2 === 1;
+                    break;
+                }
+                this.token = null;
+                this.position = end;
+                this.onString(this.finishString());
+                i = end;
+                continue;
+            }
+
+            if (this.token === 'number' || this.token === 'literal') {
+                if (this.token === 'number' ? isNumberByte(byte) : isLiteralByte(byte)) {
+                    this.tokenText += String.fromCharCode(byte);
+                    continue;
+                }
+                this.position = i;
+                this.finishScalar();
+            }
+
+            if (isWhitespace(byte)) continue;
+            switch (byte) {
+                case CHAR_QUOTE:
+                    this.token = 'string';
+                    this.tokenParts = this.isSkippingString() ? null : [];
+                    this.stringEscaped = false;
+                    this.stringHasEscapes = false;
+                    break;
+                case CHAR_OPEN_BRACE:
+                case CHAR_OPEN_BRACKET:
+                    this.openContainer(byte === CHAR_OPEN_BRACKET, i);
+                    break;
+                case CHAR_CLOSE_BRACE:
+                case CHAR_CLOSE_BRACKET:
+                    this.closeContainer(byte === CHAR_CLOSE_BRACKET, i);
+                    break;
+                case CHAR_COLON:
+                    if (this.expect !== 'colon') this.fail(i, ':');
+                    this.expect = 'value';
+                    break;
+                case CHAR_COMMA: {
+                    const frame = this.stack.at(-1);
+                    if (this.expect !== 'commaOrEnd' || !frame) this.fail(i, ',');
+                    this.expect = frame!.isArray ? 'value' : 'key';
+                    break;
+                }
+                default:
+                    if ((byte >= 0x30 && byte <= 0x39) || byte === 0x2d) this.token = 'number';
+                    else if (isLiteralByte(byte)) this.token = 'literal';
+                    else this.fail(i, String.fromCharCode(byte));
+                    this.tokenText = String.fromCharCode(byte);
+            }
+        }
+        this.offset += chunk.length;
+    }
+
+    end(): unknown {
+        if (this.token === 'number' || this.token === 'literal') this.finishScalar();
+        if (this.token !== null || this.expect !== 'done') {
+            throw new Error(`Unexpected end of JSON input after ${this.offset} bytes`);
+        }
+        return this.result;
+    }
+
+    private fail(index: number, found: string): never {
+        throw new Error(`Unexpected "${found}" at byte ${this.offset + index} of JSON input`);
+    }
+
+    // Strings that are dropped anyway (e.g. module `source`) are scanned without being stored or decoded
+    private isSkippingString(): boolean {
+        const frame = this.stack.at(-1);
+        if (!frame) return false;
+        if (this.expect === 'key' || this.expect === 'firstKeyOrEnd') return frame.role === 'skip';
+        return this.nextRole() === 'skip';
+    }
+
+    private finishString(): string {
+        const parts = this.tokenParts;
+        this.tokenParts = null;
+        if (parts === null) return '';
+        let bytes: Uint8Array;
+        if (parts.length === 1) {
+            bytes = parts[0]!;
+        } else {
+            bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+            let position = 0;
+            for (const part of parts) {
+                bytes.set(part, position);
+                position += part.length;
+            }
+        }
+        const raw = this.decoder.decode(bytes);
+        return this.stringHasEscapes ? JSON.parse(`"${raw}"`) : raw;
+    }
+
+    private finishScalar() {
+        const text = this.tokenText;
+        const isNumber = this.token === 'number';
+        this.token = null;
+        this.tokenText = '';
+        let value: unknown;
+        if (isNumber) {
+            value = Number(text);
+            if (Number.isNaN(value)) throw new Error(`Invalid number "${text}" near byte ${this.offset + this.position} of JSON input`);
+        } else {
+            if (!(text in LITERALS)) throw new Error(`Invalid literal "${text}" near byte ${this.offset + this.position} of JSON input`);
+            value = LITERALS[text];
+        }
+        if (this.expect !== 'value' && this.expect !== 'firstValueOrEnd') throw new Error(`Unexpected value "${text}" near byte ${this.offset + this.position} of JSON input`);
+        this.completeValue(value);
+    }
+
+    private onString(value: string) {
+        const frame = this.stack.at(-1);
+        if (this.expect === 'key' || this.expect === 'firstKeyOrEnd') {
+            frame!.key = value;
+            this.expect = 'colon';
+            return;
+        }
+        if (this.expect !== 'value' && this.expect !== 'firstValueOrEnd') throw new Error(`Unexpected string near byte ${this.offset + this.position} of JSON input`);
+        this.completeValue(value);
+    }
+
+    // Role of the value about to be parsed, derived from its parent
+    private nextRole(): Role {
+        const frame = this.stack.at(-1);
+        if (!frame) return 'stats';
+        if (frame.isArray) return ARRAY_ELEMENT_ROLES[frame.role] ?? 'keep';
+        return getFieldRole(frame.role, frame.key ?? '');
+    }
+
+    private openContainer(isArray: boolean, index: number) {
+        if (this.expect !== 'value' && this.expect !== 'firstValueOrEnd') this.fail(index, isArray ? '[' : '{');
+        const parent = this.stack.at(-1);
+        let role = this.nextRole();
+        // Unexpected shapes (e.g. `modules: {}`) are kept verbatim
+        if ((isArray && isObjectRole(role)) || (!isArray && isArrayRole(role))) role = 'keep';
+
+        const container = role === 'skip' ? null : isArray ? [] : {};
+        const modules = role === 'stats' && container !== null ? new ModuleIndexBuilder() : parent?.modules ?? null;
+        this.stack.push({ container, isArray, role, key: null, modules });
+        this.expect = isArray ? 'firstValueOrEnd' : 'firstKeyOrEnd';
+    }
+
+    private closeContainer(isArray: boolean, index: number) {
+        const frame = this.stack.at(-1);
+        if (!frame || frame.isArray !== isArray) this.fail(index, isArray ? ']' : '}');
+        if (this.expect !== 'commaOrEnd' && this.expect !== (isArray ? 'firstValueOrEnd' : 'firstKeyOrEnd')) this.fail(index, isArray ? ']' : '}');
+        this.stack.pop();
+
+        let value: unknown = frame!.container;
+        if (frame!.role === 'stats' && value !== null && frame!.modules) {
+            const stats = value as WebpackStatsNative;
+            this.moduleIndexes.set(stats, frame!.modules.finish(stats));
+        }
+        if (frame!.role === 'module' && value !== null && frame!.modules) {
+            const parentRole = this.stack.at(-1)?.role;
+            // Chunk modules and top-level modules are the same objects; keep the first copy
+            if (parentRole === 'moduleList' || parentRole === 'chunkModuleList') value = frame!.modules.add(value as WebpackModuleNative);
+        }
+        this.completeValue(value);
+    }
+
+    private completeValue(value: unknown) {
+        const frame = this.stack.at(-1);
+        if (!frame) {
+            this.result = value;
+            this.expect = 'done';
+            return;
+        }
+        if (Array.isArray(frame.container)) {
+            frame.container.push(value);
+        } else if (frame.container !== null && frame.key !== null && getFieldRole(frame.role, frame.key) !== 'skip') {
+            (frame.container as Record<string, unknown>)[frame.key] = value;
+        }
+        this.expect = 'commaOrEnd';
+    }
+}
+
+/**
+ * Parses a stats JSON stream with bounded memory overhead.
+ * Returns the pruned stats plus the module indexes built for every compilation object.
+ */
+export async function parseStatsStream(stream: ReadableStream<Uint8Array>): Promise<{ stats: unknown, moduleIndexes: Map<WebpackStatsNative, ModuleIndex> }> {
+    const parser = new StatsStreamParser();
+    for await (const chunk of stream) {
+        parser.write(chunk);
+    }
+    return { stats: parser.end(), moduleIndexes: parser.moduleIndexes };
+}
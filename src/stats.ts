@@ -0,0 +1,310 @@
+import { detectStatsAdapter, FORMAT_DETECTION_BYTES, getStatsAdapter, type StatsFormat } from './adapters/index.ts';
+import { buildModuleIndex, type ModuleIndex } from './module-index.ts';
+import { parseStatsStream } from './stats-stream.ts';
+
+// --- Native Webpack Stats Interfaces (Based on provided documentation) ---
+
+export interface WebpackAssetNative {
+  name: string; // The `output` filename
+  size: number; // The size of the file in bytes
+  chunks: (string | number)[]; // Chunk names or IDs
+  chunkNames: string[];
+  emitted: boolean;
+  // Add other potentially useful fields from the docs if needed later
+  // e.g., info: { immutable?: boolean; development?: boolean; hotModuleReplacement?: boolean; sourceFilename?: string; }
+  // Added from inspection
+  filteredAssets?: number;
+  filteredModules?: number;
+}
+
+// --- Detailed Interfaces based on test/webpack-stats.json ---
+export interface WebpackReason {
+    moduleId: number | string | null; // Can be number or string ID
+    moduleIdentifier: string | null;
+    module: string | null;
+    moduleName: string | null;
+    type: string;
+    userRequest: string;
+    loc: string;
+}
+
+export interface WebpackModuleNative {
+    id: number | string | null; // Can be number or string; null for Rspack runtime modules
+    identifier: string;
+    name: string; // Often relative path
+    index: number;
+    index2: number;
+    size: number;
+    cacheable: boolean;
+    built: boolean;
+    optional: boolean;
+    prefetched: boolean;
+    chunks: (string | number)[]; // Chunk IDs
+    assets: string[]; // Asset names associated directly? (Usually empty)
+    issuer: string | null; // Module identifier that imported this
+    issuerId: number | string | null;
+    issuerName: string | null; // Module name that imported this
+    failed: boolean;
+    errors: number;
+    warnings: number;
+    reasons: WebpackReason[];
+    usedExports: boolean | string[] | null; // Used export names; true: all (or unknown), false: none, null: not determined
+    providedExports: string[] | null; // null when the exports cannot be determined (e.g. CommonJS)
+    optimizationBailout: string[]; // Why the module was not concatenated, or kept for its side effects
+    orphan?: boolean; // Not in any chunk, e.g. concatenated into another module
+    descriptionData?: { name?: string, version?: string }; // The nearest package.json, where the bundler includes it
+    depth: number;
+    source?: string; // Source code (optional)
+    modules?: WebpackModuleNative[]; // Added: For concatenated modules
+}
+
+export interface WebpackChunkNative {
+    id: number | string;
+    rendered: boolean;
+    initial: boolean;
+    entry: boolean;
+    extraAsync: boolean;
+    size: number; // Size of the modules in the chunk
+    names: string[];
+    files: string[]; // Asset filenames generated from this chunk
+    hash: string;
+    parents: (string | number)[];
+    modules?: WebpackModuleNative[]; // Modules included in this chunk (Optional based on stats detail level)
+    filteredModules?: number;
+    origins: unknown[]; // Use unknown for complex/untyped fields
+}
+
+
+// Interface for native errors/warnings
+export interface WebpackProblem {
+    message: string;
+    details?: string;
+    stack?: string;
+    moduleName?: string;
+    moduleIdentifier?: string;
+    loc?: string;
+    // Add other fields if necessary
+}
+
+export interface WebpackStatsNative {
+  version?: string;
+  hash?: string;
+  time?: number; // Compilation time in ms
+  outputPath?: string;
+  publicPath?: string;
+  assets: WebpackAssetNative[]; // List of asset objects
+  chunks?: WebpackChunkNative[]; // Use detailed type
+  modules?: WebpackModuleNative[]; // Use detailed type
+  entrypoints?: Record<string, { chunks: (string|number)[], assets: (string | { name: string, size?: number })[] }>; // Asset names (webpack 4) or objects (webpack 5)
+  errors: WebpackProblem[]; // List of error objects
+  errorsCount?: number; // Make optional, will calculate if missing
+  warnings: WebpackProblem[]; // List of warning objects
+  warningsCount?: number; // Make optional, will calculate if missing
+  // Add other top-level fields if needed
+  name?: string; // Compiler name (config `name`), set on multi-compiler children
+  children?: WebpackStatsNative[]; // For multi-compiler
+}
+
+
+// --- Utility Functions (Keep formatBytes, remove parseExcludePatterns if client-side only) ---
+
+export function formatBytes(bytes: number, decimals = 2): string {
+    if (!Number.isFinite(bytes) || bytes < 0) return 'N/A'; // Handle non-finite or negative numbers
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const dm = decimals < 0 ? 0 : decimals;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.max(0, Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1));
+    return `${Number.parseFloat((bytes / (k ** i)).toFixed(dm))} ${sizes[i]}`;
+}
+
+// parseExcludePatterns seems to be handled client-side now, can be removed if not used elsewhere server-side.
+
+// Type to represent either the direct stats or the multi-compiler structure
+// (Not strictly needed for parsing logic below, but good for documentation)
+// type WebpackStatsInput = WebpackStatsNative | { children: WebpackStatsNative[] };
+
+// --- Core Data Processing Logic (Refactored for Native Stats & Module Info) ---
+
+// A single (possibly child) compilation and the name it is shown under
+export interface WebpackCompilation {
+    name: string;
+    statsData: WebpackStatsNative;
+    moduleIndex: ModuleIndex; // Built while parsing; module lookups should use it instead of scanning `modules`
+}
+
+// Pseudo compilation name for the merged view over every compilation
+export const ALL_COMPILATIONS = 'all';
+
+function isStatsObjectWithAssets(value: unknown): value is WebpackStatsNative {
+    return typeof value === 'object' && value !== null && 'assets' in value && Array.isArray(value.assets);
+}
+
+// Validation and defaults for one compilation's stats object (mutates and returns it)
+function normalizeCompilationStats(stats: WebpackStatsNative): WebpackStatsNative {
+    if (!Array.isArray(stats.assets)) {
+         throw new Error("Invalid stats format: 'assets' array not found in effective stats object.");
+    }
+    // Ensure errors/warnings are arrays even if missing or null in the JSON
+    stats.errors = Array.isArray(stats.errors) ? stats.errors : [];
+    stats.warnings = Array.isArray(stats.warnings) ? stats.warnings : [];
+    // Calculate counts if not present
+    stats.errorsCount = stats.errorsCount ?? stats.errors.length;
+    stats.warningsCount = stats.warningsCount ?? stats.warnings.length;
+    // Sort assets by size (descending) for consistency
+    stats.assets.sort((a, b) => (b.size ?? 0) - (a.size ?? 0));
+    // Ensure modules/chunks are arrays if they exist
+    stats.modules = Array.isArray(stats.modules) ? stats.modules : [];
+    stats.chunks = Array.isArray(stats.chunks) ? stats.chunks : [];
+    return stats;
+}
+
+// Unnamed compilations get their position as name; duplicates get a numeric suffix
+function nameCompilations(statsList: WebpackStatsNative[], fallbackName: (index: number) => string): Omit<WebpackCompilation, 'moduleIndex'>[] {
+    const usedNames = new Set<string>([ALL_COMPILATIONS]);
+    return statsList.map((statsData, index) => {
+        const baseName = statsData.name || fallbackName(index);
+        let name = baseName;
+        for (let suffix = 2; usedNames.has(name); suffix++) name = `${baseName}-${suffix}`;
+        usedNames.add(name);
+        return { name, statsData };
+    });
+}
+
+// Return the full stats data now, as we need modules/chunks later.
+// `statsData` is the first compilation; `compilations` holds every compilation of a multi-compiler build.
+// `log` receives progress messages; commands that print results to stdout pass console.error.
+// `format` skips detection; other bundlers' formats are converted by their adapter (see adapters/index.ts).
+export async function getWebpackStatsData(statsPath: string, log: (message: string) => void = console.log, format: StatsFormat | null = null): Promise<{ statsData: WebpackStatsNative, compilations: WebpackCompilation[], statsFilePath: string }> {
+    const statsFile = Bun.file(statsPath);
+    if (!(await statsFile.exists())) {
+        throw new Error(`Stats file not found at ${statsPath}`);
+    }
+    const adapter = format ? getStatsAdapter(format) : detectStatsAdapter(await statsFile.slice(0, FORMAT_DETECTION_BYTES).text());
+    log(`Reading ${adapter.description}: ${statsPath}`);
+
+    let rawStats: unknown; // Start with unknown for safety
+    let moduleIndexes: Map<WebpackStatsNative, ModuleIndex>;
+    let compilations: Omit<WebpackCompilation, 'moduleIndex'>[];
+    const startTime = performance.now();
+
+    try {
+        if (adapter.streamed) {
+            // Streamed, so multi-hundred-MB stats files never exist as one string or one full object tree
+            ({ stats: rawStats, moduleIndexes } = await parseStatsStream(statsFile.stream()));
+        } else {
+            rawStats = await statsFile.json();
+            moduleIndexes = new Map();
+        }
+        if (adapter.convert) {
+            const converted = adapter.convert(rawStats);
+            // Stats fixed up in place (Rspack) keep the indexes built while streaming; new objects are indexed below
+            if (converted !== rawStats) moduleIndexes = new Map();
+            rawStats = converted;
+        }
+
+        // Check if rawStats is an object
+        if (typeof rawStats !== 'object' || rawStats === null) {
+            throw new Error("Stats JSON is not an object.");
+        }
+
+        // Determine the compilations.
+        // Prioritize top-level if it has modules (its children are then child compilers such as
+        // html-webpack-plugin), otherwise every child with assets is a compilation of a multi-compiler build.
+        if ('modules' in rawStats && Array.isArray(rawStats.modules) && rawStats.modules.length > 0) {
+            log("Detected single-compiler stats format with modules.");
+            compilations = nameCompilations([rawStats as WebpackStatsNative], () => 'main');
+        } else if ('children' in rawStats && Array.isArray(rawStats.children) && rawStats.children.length > 0) {
+            log("Detected multi-compiler stats format.");
+            const validChildren: WebpackStatsNative[] = rawStats.children.filter(isStatsObjectWithAssets);
+            if (validChildren.length > 0) {
+                compilations = nameCompilations(validChildren, index => `compilation-${index + 1}`);
+                log(`Using ${compilations.length} child compilations: ${compilations.map(c => c.name).join(', ')}.`);
+            } else if ('assets' in rawStats && Array.isArray(rawStats.assets)) {
+                 console.warn("Multi-compiler format detected, but no valid children found. Falling back to top-level assets (module info might be missing).");
+                 compilations = nameCompilations([rawStats as WebpackStatsNative], () => 'main'); // Fallback to top-level if no valid child
+            } else {
+                 throw new Error("Multi-compiler stats detected, but no valid child compilation found and top-level lacks 'assets'.");
+            }
+        } else if ('assets' in rawStats && Array.isArray(rawStats.assets)) {
+             log("Detected single-compiler stats format (modules might be missing).");
+             compilations = nameCompilations([rawStats as WebpackStatsNative], () => 'main'); // Likely a simpler stats file without module details
+        } else {
+             // Handle cases where the structure doesn't match expected formats
+             throw new Error("Unrecognized stats JSON structure: Missing 'assets' array at top level or in any child compilations.");
+        }
+
+        for (const compilation of compilations) {
+            normalizeCompilationStats(compilation.statsData);
+        }
+
+    } catch (error) {
+        // Catch parsing errors or validation/structure errors
+        if (error instanceof Error && (error.message.startsWith("Invalid stats format:") || error.message.startsWith("Unrecognized stats JSON structure:") || error.message.startsWith("Stats JSON is not an object.") || error.message.startsWith("Multi-compiler stats detected") || error.message.startsWith("Invalid esbuild metafile:") || error.message.startsWith("Invalid rollup-plugin-visualizer data:"))) {
+             console.error(`Stats file structure error: ${error.message}`); // Log specific error
+             throw error; // Re-throw specific validation/structure errors
+        }
+        // Catch potential JSON parsing errors from Bun or other unexpected errors
+        console.error(`Generic error processing stats file: ${error}`);
+        throw new Error(`Error parsing or validating JSON from ${statsPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const loadTime = Math.round(performance.now() - startTime);
+    const peakMemory = process.resourceUsage().maxRSS * 1024; // maxRSS is in KB
+    log(`Loaded ${formatBytes((await statsFile.stat()).size)} of stats in ${loadTime}ms (peak memory ${formatBytes(peakMemory)}).`);
+
+    for (const { name, statsData } of compilations) {
+        log(`Processed stats${compilations.length > 1 ? ` for "${name}"` : ''}: Found ${statsData.assets.length} assets, ${statsData.modules?.length ?? 0} modules, ${statsData.chunks?.length ?? 0} chunks, ${statsData.warningsCount} warnings, ${statsData.errorsCount} errors.`);
+    }
+
+    const indexedCompilations = compilations.map(compilation => ({
+        ...compilation,
+        moduleIndex: moduleIndexes.get(compilation.statsData) ?? buildModuleIndex(compilation.statsData),
+    }));
+
+    return {
+        statsData: indexedCompilations[0]!.statsData, // Return the entire processed stats object
+        compilations: indexedCompilations,
+        statsFilePath: statsPath
+    };
+}
+
+// Resolve a compilation by name for the CLI commands; the first compilation is the default
+export function selectCompilation(compilations: WebpackCompilation[], name?: string): WebpackCompilation {
+    if (!name) return compilations[0]!;
+    const compilation = compilations.find(c => c.name === name);
+    if (!compilation) {
+        throw new Error(`Unknown compilation "${name}". Available: ${compilations.map(c => c.name).join(', ')}`);
+    }
+    return compilation;
+}
+
+// --- Module Lookup Helpers ---
+
+// Find the modules that make up an asset by walking the chunks the asset was emitted from
+export function getModulesForAsset(statsData: WebpackStatsNative, assetName: string): WebpackModuleNative[] {
+    const asset = statsData.assets.find(a => a.name === assetName);
+    if (!asset || !statsData.chunks) return [];
+
+    const relevantChunkIds = new Set(asset.chunks);
+    const relevantModules = new Set<WebpackModuleNative>();
+
+    for (const chunk of statsData.chunks) {
+        if (relevantChunkIds.has(chunk.id) && chunk.modules) {
+            for (const module of chunk.modules) {
+                relevantModules.add(module);
+            }
+        }
+    }
+    // Also check top-level modules if chunks don't have them detailed
+    if (relevantModules.size === 0 && statsData.modules) {
+        for (const module of statsData.modules) {
+            // Check if module is associated with any of the asset's chunks
+            if (module.chunks.some(chunkId => relevantChunkIds.has(chunkId))) {
+                relevantModules.add(module);
+            }
+        }
+    }
+
+    return Array.from(relevantModules).sort((a, b) => (b.size ?? 0) - (a.size ?? 0));
+}
@@ -0,0 +1,12 @@
+// Types for files imported with `with { type: 'text' }`, for which Bun returns the file content.
+// bun-types declares `*.html` as `any`; the longer `../public/` prefix takes precedence over that pattern.
+
+declare module '../public/*.html' {
+    const text: string;
+    export default text;
+}
+
+declare module 'vue/dist/vue.global.prod.js' {
+    const text: string;
+    export default text;
+}
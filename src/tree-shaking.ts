@@ -0,0 +1,111 @@
+import { collectModuleChunks } from './duplicates.ts';
+import type { WebpackModuleNative, WebpackStatsNative } from './stats.ts';
+
+// --- Tree-shaking Interfaces ---
+
+// A bundled module whose exports are not all used
+export interface UnusedExportsModule {
+    identifier: string;
+    name: string;
+    size: number;
+    issuerName: string | null; // The module that imported it, e.g. the barrel file re-exporting it
+    chunks: string[];
+    usedExports: string[];
+    unusedExports: string[]; // Empty when no export is used but the provided exports are unknown
+    noExportsUsed: boolean; // Only kept for its side effects, or because it is not marked side-effect free
+    sideEffects: string[]; // Statements with side effects that keep the module in the bundle
+    estimatedSavings: number; // The whole module without used exports, else its size in proportion to the unused exports
+}
+
+// A module that could not be concatenated into its neighbours (scope hoisting)
+export interface ConcatenationBailout {
+    identifier: string;
+    name: string;
+    size: number;
+    chunks: string[];
+    reasons: string[]; // Without the `ModuleConcatenation bailout: ` prefix
+}
+
+export interface TreeShakingReport {
+    hasExportInfo: boolean; // False for stats without `usedExports`/`providedExports` (and for adapter formats)
+    unusedExports: UnusedExportsModule[]; // Largest estimated savings first
+    bailouts: ConcatenationBailout[]; // Largest first
+    estimatedSavings: number; // Sum of the modules with unused exports
+}
+
+const CONCATENATION_BAILOUT_PREFIX = 'ModuleConcatenation bailout: ';
+// webpack: `Statement (ExpressionStatement) with side effects in source code at 3:0-20`, Rspack: `Statement with side_effects in ...`
+const SIDE_EFFECTS_STATEMENT = /^Statement\b.*\bside[ _]effects\b/;
+
+// --- Analysis ---
+
+function getUnusedExports(mod: WebpackModuleNative): Pick<UnusedExportsModule, 'usedExports' | 'unusedExports' | 'noExportsUsed' | 'estimatedSavings'> | null {
+    const { usedExports, providedExports } = mod;
+    const size = mod.size ?? 0;
+    // true means every export is used or usage is unknown (e.g. CommonJS); null means it was not determined
+    if (usedExports === true || usedExports === null || usedExports === undefined) return null;
+
+    const used = usedExports === false ? [] : usedExports;
+    const unused = (providedExports ?? []).filter(name => !used.includes(name));
+    if (used.length === 0 && (usedExports === false || unused.length > 0)) {
+        return { usedExports: [], unusedExports: unused, noExportsUsed: true, estimatedSavings: size };
+    }
+    if (unused.length === 0) return null;
+    return {
+        usedExports: used,
+        unusedExports: unused,
+        noExportsUsed: false,
+        estimatedSavings: Math.round(size * unused.length / providedExports!.length),
+    };
+}
+
+/**
+ * Lists bundled modules with unused exports and modules that bailed out of concatenation, from the
+ * `usedExports`, `providedExports` and `optimizationBailout` stats fields. Inner modules of concatenated
+ * modules are checked one by one; orphan modules that made it into no chunk are left out.
+ */
+export function analyzeTreeShaking(statsData: WebpackStatsNative): TreeShakingReport {
+    const chunksById = new Map((statsData.chunks ?? []).map(chunk => [String(chunk.id), chunk]));
+    const chunkLabel = (chunkId: string) => {
+        const chunk = chunksById.get(chunkId);
+        return chunk && chunk.names.length > 0 ? chunk.names.join(', ') : `chunk ${chunkId}`;
+    };
+
+    let hasExportInfo = false;
+    const unusedExports: UnusedExportsModule[] = [];
+    const bailouts: ConcatenationBailout[] = [];
+
+    for (const { mod, chunkIds } of collectModuleChunks(statsData).values()) {
+        if (Array.isArray(mod.providedExports) || Array.isArray(mod.usedExports) || mod.usedExports === false) hasExportInfo = true;
+        if (chunkIds.size === 0) continue; // Orphan modules are not part of any asset
+
+        const chunks = [...chunkIds].map(chunkLabel);
+        const optimizationBailout = mod.optimizationBailout ?? [];
+        const unused = getUnusedExports(mod);
+        if (unused) {
+            unusedExports.push({
+                identifier: mod.identifier,
+                name: mod.name || mod.identifier,
+                size: mod.size ?? 0,
+                issuerName: mod.issuerName ?? null,
+                chunks,
+                ...unused,
+                sideEffects: optimizationBailout.filter(reason => SIDE_EFFECTS_STATEMENT.test(reason)),
+            });
+        }
+
+        const reasons = optimizationBailout
+            .filter(reason => reason.startsWith(CONCATENATION_BAILOUT_PREFIX))
+            .map(reason => reason.slice(CONCATENATION_BAILOUT_PREFIX.length));
+        if (reasons.length > 0) {
+            bailouts.push({ identifier: mod.identifier, name: mod.name || mod.identifier, size: mod.size ?? 0, chunks, reasons });
+        }
+    }
+
+    return {
+        hasExportInfo,
+        unusedExports: unusedExports.sort((a, b) => b.estimatedSavings - a.estimatedSavings || a.name.localeCompare(b.name)),
+        bailouts: bailouts.sort((a, b) => b.size - a.size || a.name.localeCompare(b.name)),
+        estimatedSavings: unusedExports.reduce((sum, mod) => sum + mod.estimatedSavings, 0),
+    };
+}
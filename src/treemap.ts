@@ -0,0 +1,194 @@
+import type { SourceMapAttribution } from './source-maps.ts';
+import type { WebpackAssetNative, WebpackChunkNative, WebpackModuleNative, WebpackStatsNative } from './stats.ts';
+
+// --- Treemap Interfaces ---
+
+export type TreemapNodeKind = 'root' | 'compilation' | 'asset' | 'chunk' | 'directory' | 'module' | 'concatenated' | 'other';
+
+export interface TreemapNode {
+    id: number;
+    name: string;
+    kind: TreemapNodeKind;
+    size: number;
+    mappedSize: number | null; // Bytes in the minified asset according to its source map; null without one
+    unmappedSize?: number; // Asset nodes with a source map: bytes not attributed to any module (runtime, unmapped)
+    children: TreemapNode[];
+    parent: TreemapNode | null;
+}
+
+// Serializable slice of the tree sent to the browser
+export interface TreemapNodeJson {
+    id: number | null; // null for aggregated "other" nodes, which cannot be drilled into
+    name: string;
+    kind: TreemapNodeKind;
+    size: number;
+    mappedSize: number | null;
+    unmappedSize?: number;
+    childCount: number; // Children in the full tree, including those cut off by depth/limits
+    children?: TreemapNodeJson[];
+}
+
+// A fully built tree plus an id index for drilling down
+export interface Treemap {
+    root: TreemapNode;
+    nodesById: Map<number, TreemapNode>;
+}
+
+// --- Tree Building ---
+
+class TreemapBuilder {
+    private nextId = 0;
+    readonly nodesById = new Map<number, TreemapNode>();
+    private readonly directoriesByParent = new Map<TreemapNode, Map<string, TreemapNode>>();
+
+    createNode(name: string, kind: TreemapNodeKind, parent: TreemapNode | null, size = 0): TreemapNode {
+        const node: TreemapNode = { id: this.nextId++, name, kind, size, mappedSize: null, children: [], parent };
+        this.nodesById.set(node.id, node);
+        parent?.children.push(node);
+        return node;
+    }
+
+    // Directory nodes are shared between modules, so look them up by name first
+    getOrCreateDirectory(parent: TreemapNode, name: string): TreemapNode {
+        let directories = this.directoriesByParent.get(parent);
+        if (!directories) {
+            directories = new Map();
+            this.directoriesByParent.set(parent, directories);
+        }
+        let directory = directories.get(name);
+        if (!directory) {
+            directory = this.createNode(name, 'directory', parent);
+            directories.set(name, directory);
+        }
+        return directory;
+    }
+}
+
+// `./node_modules/css-loader!./src/app.css` -> ['src', 'app.css']; `./src/index.js + 3 modules` -> ['src', 'index.js + 3 modules']
+export function getModulePathSegments(moduleName: string): string[] {
+    const withoutLoaders = moduleName.slice(moduleName.lastIndexOf('!') + 1);
+    return withoutLoaders.replace(/^\.\//, '').split('/').filter(segment => segment && segment !== '.');
+}
+
+// Chunk ID -> modules of the top-level module list, for chunks without module details. Built once per compilation.
+function groupModulesByChunk(statsData: WebpackStatsNative): Map<string, WebpackModuleNative[]> {
+    const modulesByChunk = new Map<string, WebpackModuleNative[]>();
+    for (const mod of statsData.modules ?? []) {
+        for (const chunkId of new Set(mod.chunks.map(String))) {
+            const modules = modulesByChunk.get(chunkId);
+            if (modules) modules.push(mod);
+            else modulesByChunk.set(chunkId, [mod]);
+        }
+    }
+    return modulesByChunk;
+}
+
+function getChunkModules(chunk: WebpackChunkNative, modulesByChunk: () => Map<string, WebpackModuleNative[]>): WebpackModuleNative[] {
+    if (chunk.modules && chunk.modules.length > 0) return chunk.modules;
+    // Chunks without module details: fall back to the top-level module list
+    return modulesByChunk().get(String(chunk.id)) ?? [];
+}
+
+function addModule(builder: TreemapBuilder, chunkNode: TreemapNode, mod: WebpackModuleNative, sourceMap: SourceMapAttribution | null) {
+    const segments = getModulePathSegments(mod.name || mod.identifier);
+    let parent = chunkNode;
+    for (const segment of segments.slice(0, -1)) {
+        parent = builder.getOrCreateDirectory(parent, segment);
+    }
+
+    const isConcatenated = Array.isArray(mod.modules) && mod.modules.length > 0;
+    const moduleNode = builder.createNode(segments.at(-1) ?? mod.name, isConcatenated ? 'concatenated' : 'module', parent, mod.size ?? 0);
+    if (sourceMap) moduleNode.mappedSize = sourceMap.moduleSizes.get(mod.identifier) ?? 0;
+    for (const inner of mod.modules ?? []) {
+        const innerNode = builder.createNode(inner.name || inner.identifier, 'module', moduleNode, inner.size ?? 0);
+        if (sourceMap) innerNode.mappedSize = sourceMap.moduleSizes.get(inner.identifier) ?? 0;
+    }
+}
+
+// Directory and chunk sizes (and minified sizes) are the sum of their modules
+function sumSizes(node: TreemapNode): number {
+    if (node.children.length === 0 || node.kind === 'concatenated' || node.kind === 'module') return node.size;
+    node.size = node.children.reduce((sum, child) => sum + sumSizes(child), 0);
+    if (node.children.some(child => child.mappedSize !== null)) {
+        node.mappedSize = node.children.reduce((sum, child) => sum + (child.mappedSize ?? 0), 0);
+    }
+    return node.size;
+}
+
+function addAsset(builder: TreemapBuilder, parent: TreemapNode, statsData: WebpackStatsNative, modulesByChunk: () => Map<string, WebpackModuleNative[]>, asset: WebpackAssetNative, displayName: string, sourceMap: SourceMapAttribution | null) {
+    const assetNode = builder.createNode(displayName, 'asset', parent, asset.size ?? 0);
+    if (sourceMap) {
+        assetNode.mappedSize = sourceMap.mappedSize;
+        assetNode.unmappedSize = sourceMap.unmappedSize;
+    }
+    const assetChunkIds = new Set(asset.chunks.map(String));
+    for (const chunk of statsData.chunks ?? []) {
+        if (!assetChunkIds.has(String(chunk.id))) continue;
+        const chunkName = chunk.names.length > 0 ? chunk.names.join(', ') : `chunk ${chunk.id}`;
+        const chunkNode = builder.createNode(chunkName, 'chunk', assetNode);
+        for (const mod of getChunkModules(chunk, modulesByChunk)) {
+            addModule(builder, chunkNode, mod, sourceMap);
+        }
+        sumSizes(chunkNode);
+    }
+    // Asset tiles keep the emitted size; their chunk children are laid out relative to each other
+}
+
+/**
+ * Builds the asset -> chunk -> module path -> concatenated module hierarchy.
+ * Pass several compilations (the "all compilations" view) to add a compilation level below the root.
+ */
+export function buildTreemap(compilations: { name: string, statsData: WebpackStatsNative, assets: WebpackAssetNative[], sourceMaps?: Map<string, SourceMapAttribution> }[]): Treemap {
+    const builder = new TreemapBuilder();
+    const root = builder.createNode('All assets', 'root', null);
+
+    for (const { name, statsData, assets, sourceMaps } of compilations) {
+        const parent = compilations.length > 1 ? builder.createNode(name, 'compilation', root) : root;
+        // Only grouped when a chunk lacks module details
+        let modulesByChunk: Map<string, WebpackModuleNative[]> | null = null;
+        const getModulesByChunk = () => modulesByChunk ??= groupModulesByChunk(statsData);
+        for (const asset of assets) {
+            addAsset(builder, parent, statsData, getModulesByChunk, asset, asset.name, sourceMaps?.get(asset.name) ?? null);
+        }
+        if (parent !== root) parent.size = parent.children.reduce((sum, child) => sum + child.size, 0);
+    }
+    root.size = root.children.reduce((sum, child) => sum + child.size, 0);
+
+    return { root, nodesById: builder.nodesById };
+}
+
+// --- Serialization ---
+
+/**
+ * Serializes `depth` levels below `node`. Only the `maxChildren` largest children of each node are kept;
+ * the rest are merged into one "other" node so huge bundles stay light to transfer and render.
+ */
+export function sliceTreemap(node: TreemapNode, depth: number, maxChildren: number): TreemapNodeJson {
+    const json: TreemapNodeJson = { id: node.id, name: node.name, kind: node.kind, size: node.size, mappedSize: node.mappedSize, childCount: node.children.length };
+    if (node.unmappedSize !== undefined) json.unmappedSize = node.unmappedSize;
+    if (depth <= 0 || node.children.length === 0) return json;
+
+    const sorted = [...node.children].sort((a, b) => b.size - a.size);
+    json.children = sorted.slice(0, maxChildren).map(child => sliceTreemap(child, depth - 1, maxChildren));
+    const rest = sorted.slice(maxChildren);
+    if (rest.length > 0) {
+        json.children.push({
+            id: null,
+            name: `${rest.length} smaller items`,
+            kind: 'other',
+            size: rest.reduce((sum, child) => sum + child.size, 0),
+            mappedSize: rest.some(child => child.mappedSize !== null) ? rest.reduce((sum, child) => sum + (child.mappedSize ?? 0), 0) : null,
+            childCount: 0,
+        });
+    }
+    return json;
+}
+
+// Root-first path to a node, used for the breadcrumb
+export function getTreemapBreadcrumb(node: TreemapNode): { id: number, name: string }[] {
+    const breadcrumb: { id: number, name: string }[] = [];
+    for (let current: TreemapNode | null = node; current; current = current.parent) {
+        breadcrumb.unshift({ id: current.id, name: current.name });
+    }
+    return breadcrumb;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, test } from 'bun:test';
+import path from 'node:path';
+import { detectStatsAdapter, FORMAT_DETECTION_BYTES } from '../src/adapters/index.ts';
+import { analyzeChunks } from '../src/chunks.ts';
+import { buildImportGraph, findImportChains } from '../src/import-chains.ts';
+import { getModulesForAsset, getWebpackStatsData } from '../src/stats.ts';
+
+// The esbuild, Rollup and Rspack fixtures are builds of the same project: entries `index` and `admin` share
+// `util.js` (which imports the `tiny-lib` package), `index` loads `lazy.js` with import(), and `lazy.js`
+// loads `deep-lazy.js` the same way.
+
+const fixture = (name: string) => path.join(import.meta.dir, name);
+const silent = () => {};
+
+async function detectFormat(name: string) {
+    return detectStatsAdapter(await Bun.file(fixture(name)).slice(0, FORMAT_DETECTION_BYTES).text()).format;
+}
+
+async function loadFixture(name: string) {
+    const { statsData, compilations } = await getWebpackStatsData(fixture(name), silent);
+    const chunkByName = (chunkName: string) => statsData.chunks!.find(chunk => chunk.names.includes(chunkName))!;
+    const moduleByName = (suffix: string) => statsData.modules!.find(mod => mod.name.endsWith(suffix))!;
+    return { statsData, compilations, chunkByName, moduleByName };
+}
+
+describe('format detection', () => {
+    test('recognizes each fixture', async () => {
+        expect(await detectFormat('webpack-stats.json')).toBe('webpack');
+        expect(await detectFormat('rspack-stats.json')).toBe('rspack');
+        expect(await detectFormat('esbuild-metafile.json')).toBe('esbuild');
+        expect(await detectFormat('rollup-visualizer-stats.json')).toBe('rollup');
+    });
+
+    test('an explicit format skips detection', async () => {
+        // Reading a metafile as webpack stats finds no assets
+        await expect(getWebpackStatsData(fixture('esbuild-metafile.json'), silent, 'webpack')).rejects.toThrow('Unrecognized stats JSON structure');
+        await expect(getWebpackStatsData(fixture('webpack-stats.json'), silent, 'esbuild')).rejects.toThrow('Invalid esbuild metafile');
+    });
+});
+
+describe('esbuild adapter', () => {
+    test('every output is an asset and every non-map output a chunk', async () => {
+        const { statsData } = await loadFixture('esbuild-metafile.json');
+        expect(statsData.assets).toHaveLength(10);
+        expect(statsData.chunks).toHaveLength(5);
+        expect(statsData.assets.find(asset => asset.name === 'dist/index.js')).toMatchObject({ size: 218, chunkNames: ['index'] });
+        expect(statsData.assets.find(asset => asset.name === 'dist/index.js.map')?.chunks).toEqual([]);
+    });
+
+    test('splits initial and async chunks', async () => {
+        const { statsData, chunkByName } = await loadFixture('esbuild-metafile.json');
+        expect(chunkByName('index')).toMatchObject({ initial: true, entry: true, parents: [] });
+        expect(chunkByName('lazy')).toMatchObject({ initial: false, entry: false, parents: [chunkByName('index').id] });
+        expect(chunkByName('deep-lazy').parents).toEqual([chunkByName('lazy').id]);
+        expect(chunkByName('lazy').origins).toEqual([{ moduleName: 'src/index.js', loc: '', request: './lazy.js' }]);
+
+        const shared = statsData.chunks!.find(chunk => chunk.files[0] === 'dist/chunk-PVGQXVTU.js')!;
+        expect(shared).toMatchObject({ initial: true, names: [] });
+        expect(statsData.entrypoints!.admin).toEqual({ chunks: [chunkByName('admin').id, shared.id], assets: ['dist/admin.js', 'dist/chunk-PVGQXVTU.js'] });
+    });
+
+    test('inputs become modules with reasons and issuers', async () => {
+        const { statsData, moduleByName } = await loadFixture('esbuild-metafile.json');
+        expect(statsData.modules).toHaveLength(6);
+        expect(moduleByName('src/util.js')).toMatchObject({ size: 22, issuerName: 'src/index.js', depth: 1 });
+        expect(moduleByName('src/util.js').reasons.map(reason => reason.moduleName).sort()).toEqual(['src/admin.js', 'src/index.js', 'src/lazy.js']);
+        expect(moduleByName('src/lazy.js').reasons).toMatchObject([{ type: 'import()', userRequest: './lazy.js' }]);
+        expect(moduleByName('src/index.js').reasons).toMatchObject([{ type: 'entry', loc: 'index' }]);
+        expect(getModulesForAsset(statsData, 'dist/chunk-PVGQXVTU.js').map(mod => mod.name)).toEqual(['node_modules/tiny-lib/index.js', 'src/util.js']);
+    });
+
+    test('import chains lead back to the entrypoint', async () => {
+        const { statsData, moduleByName } = await loadFixture('esbuild-metafile.json');
+        const graph = buildImportGraph(statsData);
+        const { chains } = findImportChains(graph, moduleByName('src/deep-lazy.js').identifier)!;
+        expect(chains[0]?.entrypoint).toBe('index');
+        expect(chains[0]?.steps.map(step => step.module.name)).toEqual(['src/index.js', 'src/lazy.js', 'src/deep-lazy.js']);
+    });
+});
+
+describe('rollup-plugin-visualizer adapter', () => {
+    test('every bundle is an asset and a chunk', async () => {
+        const { statsData } = await loadFixture('rollup-visualizer-stats.json');
+        expect(statsData.assets.map(asset => asset.name).sort()).toEqual(['admin-JWu2xdwM.js', 'deep-lazy-B96uVUNe.js', 'index-BeQwLVJA.js', 'lazy-DzWiZtIX.js', 'util-DQGe7jp1.js']);
+        expect(statsData.assets.find(asset => asset.name === 'util-DQGe7jp1.js')?.size).toBe(113); // Rendered lengths of tiny-lib and util.js
+    });
+
+    test('splits initial and async chunks', async () => {
+        const { statsData, chunkByName } = await loadFixture('rollup-visualizer-stats.json');
+        expect(chunkByName('index')).toMatchObject({ initial: true, entry: true });
+        expect(chunkByName('lazy')).toMatchObject({ initial: false, parents: [chunkByName('index').id] });
+        expect(chunkByName('deep-lazy').parents).toEqual([chunkByName('lazy').id]);
+        expect(statsData.entrypoints!.index?.assets).toEqual(['index-BeQwLVJA.js', 'util-DQGe7jp1.js']);
+    });
+
+    test('node metas become modules with reasons and issuers', async () => {
+        const { statsData, moduleByName } = await loadFixture('rollup-visualizer-stats.json');
+        expect(statsData.modules).toHaveLength(6);
+        expect(moduleByName('/node_modules/tiny-lib/index.js')).toMatchObject({ size: 73, issuerName: '/src/util.js', depth: 2 });
+        expect(moduleByName('/src/deep-lazy.js').reasons).toMatchObject([{ type: 'import()', moduleName: '/src/lazy.js' }]);
+        expect(moduleByName('/src/admin.js').reasons).toMatchObject([{ type: 'entry', loc: 'admin' }]);
+    });
+});
+
+describe('Rspack adapter', () => {
+    test('loads the webpack-compatible stats', async () => {
+        const { statsData, compilations, chunkByName } = await loadFixture('rspack-stats.json');
+        expect(compilations).toHaveLength(1);
+        expect(statsData.assets).toHaveLength(6);
+        expect(chunkByName('index')).toMatchObject({ initial: true, entry: true });
+        expect(statsData.modules!.find(mod => mod.name === './src/util.js')?.issuerName).toBe('./src/index.js');
+    });
+
+    test('runtime modules have no ID and are listed once', async () => {
+        const { statsData } = await loadFixture('rspack-stats.json');
+        const runtimeModules = statsData.modules!.filter(mod => mod.identifier.startsWith('webpack/runtime/'));
+        expect(runtimeModules).toHaveLength(9); // 13 entries in the file, four listed twice under the same identifier
+        expect(runtimeModules.every(mod => mod.id === null)).toBe(true);
+        expect(new Set(statsData.modules).size).toBe(statsData.modules!.length);
+    });
+
+    test('the module index covers the fixed-up modules', async () => {
+        const { statsData, compilations } = await loadFixture('rspack-stats.json');
+        const { moduleIndex } = compilations[0]!;
+        expect(moduleIndex.byId.has('')).toBe(false);
+        expect(moduleIndex.byIdentifier.size).toBe(statsData.modules!.length);
+        expect(statsData.modules!.every(mod => moduleIndex.byIdentifier.get(mod.identifier) === mod)).toBe(true);
+    });
+});
+
+describe('converted stats in the chunk analysis', () => {
+    test.each(['esbuild-metafile.json', 'rollup-visualizer-stats.json', 'rspack-stats.json'])('%s', async name => {
+        const { statsData } = await loadFixture(name);
+        const { entrypoints } = analyzeChunks(statsData);
+        expect(entrypoints.map(entrypoint => entrypoint.name).sort()).toEqual(['admin', 'index']);
+        const index = entrypoints.find(entrypoint => entrypoint.name === 'index')!;
+        expect(index.sharedSize).toBeGreaterThan(0); // util.js and tiny-lib are shared with admin
+        expect(index.asyncChunks).toHaveLength(1);
+        expect(index.asyncChunks[0]?.children).toHaveLength(1);
+    });
+});
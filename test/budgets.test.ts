@@ -0,0 +1,132 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { evaluateBudgets, formatBudgetResults, loadBudgetConfig, parseBudgetSize, type BudgetConfig } from '../src/budgets.ts';
+import { loadServerState } from '../src/server.ts';
+import { getWebpackStatsData } from '../src/stats.ts';
+
+const configDir = await mkdtemp(path.join(os.tmpdir(), 'bundle-budgets-'));
+afterAll(() => rm(configDir, { recursive: true, force: true }));
+
+const statsPath = path.join(import.meta.dir, 'webpack-stats.json');
+// main.chunk.js (2865 B) in the `main` entrypoint and chunk, plus index.html (186 B)
+const { statsData } = await getWebpackStatsData(statsPath, () => {});
+
+let configCount = 0;
+async function writeConfig(config: unknown): Promise<string> {
+    const configPath = path.join(configDir, `budgets-${++configCount}.json`);
+    await Bun.write(configPath, typeof config === 'string' ? config : JSON.stringify(config));
+    return configPath;
+}
+
+describe('budget sizes', () => {
+    test('bytes and sizes with units', () => {
+        expect(parseBudgetSize(250000)).toBe(250000);
+        expect(parseBudgetSize('250 KB')).toBe(256000);
+        expect(parseBudgetSize('1.5MB')).toBe(1572864);
+        expect(parseBudgetSize(' 2gb ')).toBe(2 * 1024 ** 3);
+        expect(parseBudgetSize('100')).toBe(100);
+    });
+
+    test('bad units and values are rejected', () => {
+        for (const value of ['250 KiB', '1.5 TB', 'KB', '-5kb', '']) {
+            expect(() => parseBudgetSize(value)).toThrow(`Invalid budget config: "${value}" is not a valid size`);
+        }
+        expect(() => parseBudgetSize(-1)).toThrow('Invalid budget config');
+        expect(() => parseBudgetSize(Number.NaN)).toThrow('Invalid budget config');
+    });
+});
+
+describe('budget config', () => {
+    test('a valid config loads', async () => {
+        const config = { total: '10kb', assets: [{ pattern: '*.js', maxSize: 1000 }], entrypoints: { main: '5kb' } };
+        expect(await loadBudgetConfig(await writeConfig(config))).toEqual(config);
+    });
+
+    test('invalid configs are reported', async () => {
+        const invalid: [unknown, string][] = [
+            ['{ "total": ', 'Invalid budget config: could not parse'],
+            [[], 'Invalid budget config: expected a JSON object.'],
+            [{ total: 'big' }, 'Invalid budget config: "big" is not a valid size'],
+            [{ assets: {} }, "Invalid budget config: 'assets' must be an array."],
+            [{ assets: [{ maxSize: 100 }] }, "Invalid budget config: every asset budget needs a 'pattern' string."],
+            [{ assets: [{ pattern: '/[/', maxSize: 100 }] }, 'Invalid budget config: bad regex /[/'],
+            [{ chunks: ['main'] }, "Invalid budget config: 'chunks' must be an object of name -> size."],
+            [{ entrypoints: { main: '1 parsec' } }, 'Invalid budget config: "1 parsec" is not a valid size'],
+        ];
+        for (const [config, message] of invalid) {
+            await expect(loadBudgetConfig(await writeConfig(config))).rejects.toThrow(message);
+        }
+        await expect(loadBudgetConfig(path.join(configDir, 'missing.json'))).rejects.toThrow('Budget config not found');
+    });
+});
+
+describe('budget evaluation', () => {
+    const evaluate = (config: BudgetConfig) => evaluateBudgets(statsData, config).map(({ kind, target, actualSize, status }) => [kind, target, actualSize, status]);
+
+    test('total budget sums every asset', () => {
+        expect(evaluate({ total: 3051 })).toEqual([['total', null, 3051, 'pass']]);
+        expect(evaluate({ total: '2kb' })).toEqual([['total', null, 3051, 'fail']]);
+    });
+
+    test('asset budgets apply to each matching asset', () => {
+        expect(evaluate({ assets: [{ pattern: '*', maxSize: 1000 }, { pattern: '/\\.html$/', maxSize: 100 }, { pattern: '*.css', maxSize: 100 }] })).toEqual([
+            ['asset', 'main.chunk.js', 2865, 'fail'],
+            ['asset', 'index.html', 186, 'pass'],
+            ['asset', 'index.html', 186, 'fail'],
+            ['asset', null, null, 'missing'],
+        ]);
+    });
+
+    test('entrypoint and chunk budgets sum their files', () => {
+        expect(evaluate({ entrypoints: { main: '3kb', admin: '3kb' }, chunks: { main: '2kb' } })).toEqual([
+            ['entrypoint', 'main', 2865, 'pass'],
+            ['entrypoint', null, null, 'missing'],
+            ['chunk', 'main', 2865, 'fail'],
+        ]);
+    });
+
+    test('results are summarized', () => {
+        expect(formatBudgetResults(evaluateBudgets(statsData, { total: '2kb', chunks: { main: '3kb', admin: '1kb' } }))).toBe([
+            'FAIL  total: 2.98 KB > 2 KB (over by 1003 Bytes)',
+            'SKIP  chunk admin: nothing in the stats file matched',
+            '',
+            '1 failed, 1 passed, 1 skipped.',
+        ].join('\n'));
+        expect(formatBudgetResults([])).toBe('No budgets configured.');
+    });
+});
+
+describe('merged compilations view', () => {
+    test('only asset targets get the compilation prefix', async () => {
+        const rawStats = await Bun.file(statsPath).json();
+        const multiStatsPath = path.join(configDir, 'multi-stats.json');
+        await Bun.write(multiStatsPath, JSON.stringify({ children: [{ ...rawStats, name: 'client' }, { ...rawStats, name: 'server' }] }));
+        const budgetConfig = { total: '10kb', assets: [{ pattern: '*.js', maxSize: '2kb' }], entrypoints: { main: '3kb' }, chunks: { main: '3kb' } };
+        const options = { statsFilePath: multiStatsPath, baselineFilePath: null, budgetFilePath: null, outputDir: null, statsFormat: null };
+        const { allView } = await loadServerState(options, { baselineCompilations: [], budgetConfig }, 1);
+
+        expect(allView.budgets?.filter(result => result.compilation === 'client').map(({ kind, target }) => [kind, target])).toEqual([
+            ['total', null],
+            ['asset', 'client/main.chunk.js'],
+            ['entrypoint', 'main'],
+            ['chunk', 'main'],
+        ]);
+        expect(allView.budgets).toHaveLength(8);
+    });
+});
+
+describe('check command', () => {
+    const runCheck = async (config: unknown) => {
+        const proc = Bun.spawn(['bun', path.join(import.meta.dir, '../index.ts'), 'check', statsPath, '--config', await writeConfig(config)], { stdout: 'pipe', stderr: 'pipe' });
+        const [exitCode, stdout, stderr] = await Promise.all([proc.exited, new Response(proc.stdout).text(), new Response(proc.stderr).text()]);
+        return { exitCode, stdout, stderr };
+    };
+
+    test('exits non-zero when a budget is exceeded', async () => {
+        expect(await runCheck({ total: '10kb' })).toMatchObject({ exitCode: 0, stdout: expect.stringContaining('0 failed, 1 passed, 0 skipped.') });
+        expect(await runCheck({ total: '10kb', entrypoints: { main: '2kb' } })).toMatchObject({ exitCode: 1, stdout: expect.stringContaining('FAIL  entrypoint main:') });
+        expect(await runCheck({ total: 'huge' })).toMatchObject({ exitCode: 1, stderr: expect.stringContaining('Failed to check budgets: Invalid budget config') });
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import path from 'node:path';
+import { analyzeChunks, type AsyncChunkNode } from '../src/chunks.ts';
+import { getWebpackStatsData, type WebpackStatsNative } from '../src/stats.ts';
+
+const loadStats = async (fileName: string) => (await getWebpackStatsData(path.join(import.meta.dir, fileName), () => {})).statsData;
+
+// [chunkId, repeated?] with children, for compact expectations
+const outline = (nodes: AsyncChunkNode[]): unknown[] => nodes.map(node => {
+    const label = node.repeated ? `${node.chunkId} (repeated)` : node.chunkId;
+    return node.children.length > 0 ? [label, outline(node.children)] : label;
+});
+
+describe('chunk analysis', () => {
+    test('a single entrypoint downloads its chunk alone', async () => {
+        // main.chunk.js (2865 B) is chunk 0, the only chunk of entrypoint `main`
+        const { chunks, entrypoints } = analyzeChunks(await loadStats('webpack-stats.json'));
+        expect(chunks).toMatchObject([{ id: '0', label: 'main', files: ['main.chunk.js'], size: 2865, moduleSize: 45, initial: true, entry: true, entrypoints: ['main'], moduleCount: 2 }]);
+        expect(chunks[0]!.modules.map(mod => [mod.name, mod.size])).toEqual([['./src/index.js', 24], ['./src/foo.js', 21]]);
+        expect(entrypoints).toEqual([{
+            name: 'main',
+            assets: [{ name: 'main.chunk.js', size: 2865 }],
+            initialSize: 2865,
+            sharedSize: 0,
+            entryOnlySize: 2865,
+            initialChunks: [{ chunkId: '0', sharedWith: [] }],
+            asyncChunks: [],
+            asyncSize: 0,
+        }]);
+    });
+
+    test('chunks loaded by several entrypoints count as shared', async () => {
+        // index and admin both load chunks 145 (153 B) and 358 (136 B); 296 (224 B) and 759 (193 B) are async
+        const { chunks, entrypoints } = analyzeChunks(await loadStats('rspack-stats.json'));
+        expect(entrypoints.map(({ name, initialSize, sharedSize, entryOnlySize }) => [name, initialSize, sharedSize, entryOnlySize])).toEqual([
+            ['index', 3442, 289, 3153],
+            ['admin', 1409, 289, 1120],
+        ]);
+        expect(entrypoints[0]!.initialChunks).toEqual([
+            { chunkId: '145', sharedWith: ['admin'] },
+            { chunkId: '358', sharedWith: ['admin'] },
+            { chunkId: '410', sharedWith: [] },
+        ]);
+        expect(chunks.find(chunk => chunk.id === '296')).toMatchObject({ initial: false, parents: ['145', '358', '410'], children: ['759'], entrypoints: [] });
+    });
+
+    test('async chunks are followed through their parents', async () => {
+        const { entrypoints } = analyzeChunks(await loadStats('rspack-stats.json'));
+        for (const entrypoint of entrypoints) {
+            // 296 lists three of index's initial chunks as parents but appears once
+            expect(outline(entrypoint.asyncChunks)).toEqual([['296', ['759']]]);
+            expect(entrypoint.asyncSize).toBe(417);
+        }
+    });
+
+    test('a chunk reachable along several paths is expanded once, closest to the entrypoint', () => {
+        const stats = {
+            assets: [{ name: 'main.js', size: 100 }, { name: 'a.js', size: 10 }, { name: 'b.js', size: 20 }, { name: 'c.js', size: 40 }],
+            chunks: [
+                { id: 1, names: ['main'], files: ['main.js'], initial: true, entry: true, parents: [] },
+                { id: 2, names: [], files: ['a.js'], initial: false, entry: false, parents: [1] },
+                { id: 3, names: [], files: ['b.js'], initial: false, entry: false, parents: [1, 2] },
+                { id: 4, names: [], files: ['c.js'], initial: false, entry: false, parents: [2, 3] },
+            ],
+            modules: [],
+        } as unknown as WebpackStatsNative;
+        // Without `entrypoints`, every entry chunk is an entrypoint
+        const [entrypoint] = analyzeChunks(stats).entrypoints;
+        expect(entrypoint!.name).toBe('main');
+        expect(outline(entrypoint!.asyncChunks)).toEqual([['2', ['3 (repeated)', '4']], ['3', ['4 (repeated)']]]);
+        expect(entrypoint!.asyncSize).toBe(70);
+    });
+});
@@ -0,0 +1,68 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, utimes } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { getCompressedSizes } from '../src/compressed-sizes.ts';
+
+const outputDir = await mkdtemp(path.join(os.tmpdir(), 'bundle-compressed-'));
+afterAll(() => rm(outputDir, { recursive: true, force: true }));
+
+const cacheFilePath = path.join(outputDir, 'cache', 'compressed-sizes.json');
+const MAIN_CONTENT = 'console.log("hello");\n'.repeat(200);
+
+// Returns the sizes and how many assets were computed rather than read from the cache
+async function getSizes(assetNames: string[]) {
+    const messages: string[] = [];
+    const sizes = await getCompressedSizes(outputDir, assetNames, message => messages.push(message), cacheFilePath);
+    return { sizes, computed: Number(messages[0]!.match(/\((\d+) computed/)![1]) };
+}
+
+describe('compressed sizes', () => {
+    test('gzip and brotli sizes of the emitted files', async () => {
+        await Bun.write(path.join(outputDir, 'main.js'), MAIN_CONTENT);
+        const { sizes, computed } = await getSizes(['main.js?v=3', 'missing.js']);
+        expect(computed).toBe(1);
+        expect([...sizes.keys()]).toEqual(['main.js?v=3']);
+        const { gzip, brotli } = sizes.get('main.js?v=3')!;
+        expect(gzip).toBe(gzipSync(MAIN_CONTENT, { level: 9 }).byteLength);
+        expect(brotli).toBeGreaterThan(0);
+        expect(brotli).toBeLessThan(gzip);
+    });
+
+    test('unchanged files are read from the cache', async () => {
+        // Fake cached sizes show whether the cache was used
+        const cache = await Bun.file(cacheFilePath).json();
+        cache[path.join(outputDir, 'main.js')].gzip = 1;
+        await Bun.write(cacheFilePath, JSON.stringify(cache));
+
+        const { sizes, computed } = await getSizes(['main.js']);
+        expect(computed).toBe(0);
+        expect(sizes.get('main.js')!.gzip).toBe(1);
+    });
+
+    test('a changed mtime or size invalidates the cache entry', async () => {
+        const mainPath = path.join(outputDir, 'main.js');
+        await utimes(mainPath, new Date(), new Date(Date.now() + 60_000));
+        expect((await getSizes(['main.js'])).computed).toBe(1);
+        expect((await getSizes(['main.js'])).computed).toBe(0);
+
+        await Bun.write(mainPath, MAIN_CONTENT + '// more\n');
+        const { sizes, computed } = await getSizes(['main.js']);
+        expect(computed).toBe(1);
+        expect(sizes.get('main.js')!.gzip).toBe(gzipSync(MAIN_CONTENT + '// more\n', { level: 9 }).byteLength);
+    });
+
+    test('entries of deleted files are pruned when the cache is written', async () => {
+        await Bun.write(path.join(outputDir, 'main.1a2b.js'), MAIN_CONTENT);
+        await getSizes(['main.1a2b.js']);
+        await rm(path.join(outputDir, 'main.1a2b.js'));
+        await Bun.write(path.join(outputDir, 'main.3c4d.js'), MAIN_CONTENT);
+        await getSizes(['main.3c4d.js']);
+
+        expect(Object.keys(await Bun.file(cacheFilePath).json()).sort()).toEqual([
+            path.join(outputDir, 'main.3c4d.js'),
+            path.join(outputDir, 'main.js'),
+        ]);
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { diffStats, matchAssets, normalizeAssetName } from '../src/diff.ts';
+import type { WebpackStatsNative } from '../src/stats.ts';
+
+const createStats = (assets: Record<string, number>, modules: Record<string, number> = {}) => ({
+    assets: Object.entries(assets).map(([name, size]) => ({ name, size, chunks: [0] })),
+    modules: Object.entries(modules).map(([name, size]) => ({ name, identifier: `/app/${name}`, size, chunks: [0] })),
+}) as unknown as WebpackStatsNative;
+
+describe('asset name normalization', () => {
+    test('strips webpack hex hashes', () => {
+        expect(normalizeAssetName('main.3fa2.js')).toBe('main.[hash].js');
+        expect(normalizeAssetName('vendors-9bc1e0.js')).toBe('vendors-[hash].js');
+        expect(normalizeAssetName('main.3fa2b1c9d4e5f6a7b8c9.js')).toBe('main.[hash].js');
+        expect(matchAssets(['main.abcdef12.js'], ['main.abcdefab.js'])).toEqual(new Map([['main.abcdefab.js', 'main.abcdef12.js']]));
+    });
+
+    test('strips esbuild base32 hashes', () => {
+        // Names from test/esbuild-metafile.json
+        expect(normalizeAssetName('dist/chunk-PVGQXVTU.js')).toBe('dist/chunk-[hash].js');
+        expect(normalizeAssetName('dist/lazy-2OOBX4MU.js.map')).toBe('dist/lazy-[hash].js.map');
+        expect(matchAssets(['dist/chunk-PVGQXVTU.js', 'dist/index.js'], ['dist/chunk-X7KQ2MZA.js', 'dist/index.js']))
+            .toEqual(new Map([['dist/chunk-X7KQ2MZA.js', 'dist/chunk-PVGQXVTU.js'], ['dist/index.js', 'dist/index.js']]));
+    });
+
+    test('strips Rollup/Vite base64url hashes', () => {
+        // Names from test/rollup-visualizer-stats.json
+        expect(normalizeAssetName('index-BeQwLVJA.js')).toBe('index-[hash].js');
+        expect(normalizeAssetName('lazy-DzWiZtIX.js')).toBe('lazy-[hash].js');
+        expect(normalizeAssetName('assets/index-B_x-k9aZ.js')).toBe('assets/index-[hash].js');
+        expect(matchAssets(['index-B2xHk9aZ.js'], ['index-Cq81LmNb.js'])).toEqual(new Map([['index-Cq81LmNb.js', 'index-B2xHk9aZ.js']]));
+    });
+
+    test('keeps plain words', () => {
+        for (const name of ['polyfills.js', 'vendors-polyfills.js', 'face.added.js', 'runtime~main.js', 'dist/admin.js']) {
+            expect(normalizeAssetName(name)).toBe(name);
+        }
+    });
+
+    test('keeps webpack chunk names', () => {
+        for (const name of ['src_pages_Home_tsx.js', 'src_pages_Card_tsx.js', 'main-Settings.js', 'src_components_HomePage_tsx.js']) {
+            expect(normalizeAssetName(name)).toBe(name);
+        }
+        expect(matchAssets(['src_pages_Home_tsx.js'], ['src_pages_Card_tsx.js'])).toEqual(new Map());
+    });
+});
+
+describe('asset matching', () => {
+    test('exact names are matched first', () => {
+        // `main.1a2b.js` keeps its exact partner instead of pairing up with the other hashed name
+        expect(matchAssets(['main.1a2b.js', 'main.3c4d.js'], ['main.1a2b.js', 'main.5e6f.js']))
+            .toEqual(new Map([['main.1a2b.js', 'main.1a2b.js'], ['main.5e6f.js', 'main.3c4d.js']]));
+    });
+
+    test('hash-normalized names are matched when unambiguous', () => {
+        expect(matchAssets(['main.3fa2.js', 'vendors.9bc1.js'], ['main.77aa.js', 'vendors.12cd.js']))
+            .toEqual(new Map([['main.77aa.js', 'main.3fa2.js'], ['vendors.12cd.js', 'vendors.9bc1.js']]));
+    });
+
+    test('ambiguous normalized names are left unmatched', () => {
+        // Two `[hash].js` chunks on either side could pair up either way
+        expect(matchAssets(['1a2b.js', '3c4d.js', 'main.js'], ['5e6f.js', '7a8b.js', 'main.js'])).toEqual(new Map([['main.js', 'main.js']]));
+        expect(matchAssets(['1a2b.js'], ['5e6f.js', '7a8b.js'])).toEqual(new Map());
+    });
+});
+
+describe('stats diff', () => {
+    const base = createStats({ 'main.3fa2.js': 1000, 'legacy.js': 300, 'index.html': 100 }, { './src/a.js': 400, './src/b.js': 200, './src/old.js': 300 });
+    const head = createStats({ 'main.9bc1.js': 1500, 'lazy.5e6f.js': 200, 'index.html': 100 }, { './src/a.js': 600, './src/b.js': 200, './src/new.js': 200 });
+
+    test('assets are added, removed or changed, largest delta first', () => {
+        const diff = diffStats(base, head);
+        expect(diff).toMatchObject({ baseTotalSize: 1400, headTotalSize: 1800, totalDelta: 400 });
+        expect(diff.assets).toEqual([
+            { name: 'main.9bc1.js', baseName: 'main.3fa2.js', headName: 'main.9bc1.js', status: 'changed', baseSize: 1000, headSize: 1500, delta: 500 },
+            { name: 'legacy.js', baseName: 'legacy.js', headName: null, status: 'removed', baseSize: 300, headSize: 0, delta: -300 },
+            { name: 'lazy.5e6f.js', baseName: null, headName: 'lazy.5e6f.js', status: 'added', baseSize: 0, headSize: 200, delta: 200 },
+            { name: 'index.html', baseName: 'index.html', headName: 'index.html', status: 'unchanged', baseSize: 100, headSize: 100, delta: 0 },
+        ]);
+    });
+
+    test('only changed modules are listed', () => {
+        expect(diffStats(base, head).modules.map(mod => [mod.name, mod.status, mod.delta])).toEqual([
+            ['./src/old.js', 'removed', -300],
+            ['./src/a.js', 'changed', 200],
+            ['./src/new.js', 'added', 200],
+        ]);
+    });
+});
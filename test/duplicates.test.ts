@@ -0,0 +1,58 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { findDuplicatePackages, parsePackageLocation } from '../src/duplicates.ts';
+import type { WebpackModuleNative, WebpackStatsNative } from '../src/stats.ts';
+
+const projectDir = await mkdtemp(path.join(os.tmpdir(), 'duplicates-'));
+afterAll(() => rm(projectDir, { recursive: true, force: true }));
+
+const createModule = (name: string, chunks: number[], fields: Partial<WebpackModuleNative> = {}) => ({ name, identifier: `/app/${name.slice(2)}`, size: 100, chunks, ...fields }) as WebpackModuleNative;
+// Chunks 1 and 2 are entrypoints, 3 and 4 are loaded on demand
+const createStats = (modules: WebpackModuleNative[]) => ({
+    assets: [],
+    chunks: [
+        { id: 1, names: ['index'], initial: true },
+        { id: 2, names: ['admin'], initial: true },
+        { id: 3, names: ['lazy'], initial: false },
+        { id: 4, names: [], initial: false },
+    ],
+    modules,
+}) as unknown as WebpackStatsNative;
+
+describe('package locations', () => {
+    test('nested, scoped and pnpm paths', () => {
+        expect(parsePackageLocation('./node_modules/a/node_modules/lodash/map.js')).toEqual({ name: 'lodash', path: 'node_modules/a/node_modules/lodash', version: null });
+        expect(parsePackageLocation('babel-loader!./node_modules/@babel/runtime/helpers/esm/extends.js')).toMatchObject({ name: '@babel/runtime', path: 'node_modules/@babel/runtime' });
+        expect(parsePackageLocation('./node_modules/.pnpm/lodash@4.17.21/node_modules/lodash/map.js')).toMatchObject({ name: 'lodash', version: '4.17.21' });
+        expect(parsePackageLocation('./src/index.js')).toBeNull();
+    });
+});
+
+describe('duplicate packages', () => {
+    test('only copies in several async chunks are wasted', () => {
+        const duplicates = findDuplicatePackages(createStats([
+            createModule('./node_modules/shared-entry/index.js', [1, 2]), // In both entrypoints, which are never loaded together
+            createModule('./node_modules/shared-lazy/index.js', [1, 3, 4]),
+        ]));
+        expect(duplicates.map(pkg => [pkg.name, pkg.duplicatedChunks, pkg.chunkWastedSize])).toEqual([['shared-lazy', ['lazy', 'chunk 4'], 100]]);
+    });
+
+    test('install versions come from descriptionData or the installed package.json', async () => {
+        await Bun.write(path.join(projectDir, 'node_modules/lodash/package.json'), JSON.stringify({ name: 'lodash', version: '4.17.21' }));
+        const nestedPath = 'node_modules/a/node_modules/lodash';
+        const duplicates = findDuplicatePackages(createStats([
+            createModule('./node_modules/lodash/map.js', [1], { identifier: `javascript/auto|${projectDir}/node_modules/lodash/map.js`, size: 300 }),
+            createModule(`./${nestedPath}/map.js`, [1], { descriptionData: { name: 'lodash', version: '3.10.1' } }),
+            createModule('./node_modules/b/node_modules/lodash/map.js', [1], { size: 50 }), // Neither: stats from another machine
+        ]));
+        expect(duplicates).toHaveLength(1);
+        expect(duplicates[0]!.installs.map(install => [install.path, install.version])).toEqual([
+            ['node_modules/lodash', '4.17.21'],
+            [nestedPath, '3.10.1'],
+            ['node_modules/b/node_modules/lodash', null],
+        ]);
+        expect(duplicates[0]).toMatchObject({ installWastedSize: 150, chunkWastedSize: 0, wastedSize: 150 });
+    });
+});
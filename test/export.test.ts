@@ -0,0 +1,42 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { exportReport } from '../src/export.ts';
+
+const outputDir = await mkdtemp(path.join(os.tmpdir(), 'bundle-export-'));
+afterAll(() => rm(outputDir, { recursive: true, force: true }));
+
+// Contents of the first <script> tag with the given attributes
+function getScript(html: string, attributes: string): string | undefined {
+    return html.match(new RegExp(`<script ${attributes}>([\\s\\S]*?)</script>`))?.[1];
+}
+
+describe('export command', () => {
+    test('the report embeds the stats data, the filter worker and the API replacement', async () => {
+        const outputFilePath = path.join(outputDir, 'report.html');
+        const { size } = await exportReport({
+            statsFilePath: path.join(import.meta.dir, 'webpack-stats.json'),
+            baselineFilePath: null,
+            budgetFilePath: null,
+            outputDir: null,
+            statsFormat: null,
+            outputFilePath,
+        });
+        const html = await Bun.file(outputFilePath).text();
+        expect(size).toBe(Buffer.byteLength(html));
+
+        const data = JSON.parse(getScript(html, 'id="bundle-data" type="application/json"')!);
+        const [compilation] = Object.values(data.compilations) as { table: { name: string }[], modules: { name: string }[] }[];
+        expect(compilation!.table.map(asset => asset.name).sort()).toEqual(['index.html', 'main.chunk.js']);
+        expect(compilation!.modules.map(mod => mod.name).sort()).toEqual(['./src/foo.js', './src/index.js']);
+
+        // The worker is bundled with its import, so nothing is left to load from disk
+        const worker = getScript(html, 'id="bundle-worker" type="javascript/worker"');
+        expect(worker).toBeString();
+        expect(worker).not.toContain('import ');
+        expect(html).toContain('window.staticExport');
+        expect(html).not.toContain('href="./tailwind.css"');
+        expect(html).not.toContain('src="./vendor/vue.global.prod.js"');
+    });
+});
@@ -0,0 +1,79 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { createSnapshot, findFirstSizeJump, getHistoryPoints, getSnapshotCompilation, readHistory, recordSnapshot, type HistorySnapshot } from '../src/history.ts';
+import { getWebpackStatsData } from '../src/stats.ts';
+
+const storeDir = await mkdtemp(path.join(os.tmpdir(), 'bundle-history-'));
+afterAll(() => rm(storeDir, { recursive: true, force: true }));
+
+const { compilations } = await getWebpackStatsData(path.join(import.meta.dir, 'esbuild-metafile.json'), () => {});
+
+// A copy of the fixture's snapshot where `dist/index.js` has the given size and the shared chunk the given esbuild hash
+function withIndexSize(label: string, size: number, sharedChunkName = 'dist/chunk-PVGQXVTU.js'): HistorySnapshot {
+    const snapshot = createSnapshot(label, 'stats.json', compilations);
+    const [compilation] = snapshot.compilations;
+    compilation!.assets = compilation!.assets.map(asset => asset.name === 'dist/index.js' ? { ...asset, size }
+        : asset.name === 'dist/chunk-PVGQXVTU.js' ? { ...asset, name: sharedChunkName } : asset);
+    compilation!.totalSize = compilation!.assets.reduce((sum, asset) => sum + asset.size, 0);
+    return snapshot;
+}
+
+describe('history store', () => {
+    test('snapshots summarize assets, chunks and packages', () => {
+        const [compilation] = createSnapshot('abc123', 'stats.json', compilations).compilations;
+        expect(compilation).toMatchObject({ name: 'main', totalSize: 2920 });
+        expect(compilation!.assets[0]).toEqual({ name: 'dist/chunk-PVGQXVTU.js.map', size: 545 });
+        expect(compilation!.chunks.map(chunk => chunk.name)).toContain('lazy');
+        expect(compilation!.packages).toEqual([{ name: 'tiny-lib', size: expect.any(Number) }]);
+    });
+
+    test('recording a label again replaces its snapshot', async () => {
+        const storePath = path.join(storeDir, 'nested', 'history.jsonl');
+        expect(await readHistory(storePath)).toEqual([]);
+        expect(await recordSnapshot(storePath, withIndexSize('a', 100))).toBe(1);
+        expect(await recordSnapshot(storePath, withIndexSize('b', 100))).toBe(2);
+        expect(await recordSnapshot(storePath, withIndexSize('a', 150))).toBe(2);
+        const snapshots = await readHistory(storePath);
+        expect(snapshots.map(snapshot => snapshot.label)).toEqual(['b', 'a']);
+        expect(getHistoryPoints(snapshots, 'main', 'dist/index.js').map(point => point.assetSize)).toEqual([100, 150]);
+    });
+
+    test('an invalid line is reported with its line number', async () => {
+        const storePath = path.join(storeDir, 'broken.jsonl');
+        await Bun.write(storePath, `${JSON.stringify(withIndexSize('a', 100))}\n{"label":\n`);
+        await expect(readHistory(storePath)).rejects.toThrow('could not parse line 2');
+    });
+});
+
+describe('history queries', () => {
+    const snapshots = [
+        withIndexSize('c1', 2000),
+        withIndexSize('c2', 2100), // +5%
+        withIndexSize('c3', 9000, 'dist/chunk-X7KQ2MZA.js'),
+        withIndexSize('c4', 20000, 'dist/chunk-4NRWBTJE.js'),
+    ];
+
+    test('points follow an asset across snapshots', () => {
+        const points = getHistoryPoints(snapshots, 'main', 'dist/chunk-PVGQXVTU.js');
+        expect(points.map(point => point.assetSize)).toEqual([125, 125, 125, 125]); // Matched by the hash-normalized name
+        expect(getHistoryPoints(snapshots, 'main', 'dist/chunk-4NRWBTJE.js').map(point => point.assetSize)).toEqual([125, 125, 125, 125]);
+        expect(getHistoryPoints(snapshots, 'main', 'dist/missing.js').every(point => point.assetSize === null)).toBe(true);
+        expect(getHistoryPoints(snapshots, 'client', null)).toEqual([]);
+    });
+
+    test('the first jump is the first growth over the threshold', () => {
+        const points = getHistoryPoints(snapshots, 'main', 'dist/index.js');
+        expect(findFirstSizeJump(points, 10, 0)).toMatchObject({ label: 'c3', previousLabel: 'c2', previousSize: 2100, size: 9000, delta: 6900 });
+        expect(findFirstSizeJump(points, 4, 0)?.label).toBe('c2');
+        expect(findFirstSizeJump(points, 4, 1024)?.label).toBe('c3'); // +100 B is below the byte minimum
+        expect(findFirstSizeJump(points, 500, 0)).toBeNull();
+    });
+
+    test('the merged view prefixes names with the compilation', () => {
+        const merged = getSnapshotCompilation(snapshots[0]!, 'all')!;
+        expect(merged.totalSize).toBe(snapshots[0]!.compilations[0]!.totalSize);
+        expect(merged.assets.every(asset => asset.name.startsWith('main/'))).toBe(true);
+    });
+});
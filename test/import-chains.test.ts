@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { buildImportGraph, findImportChains } from '../src/import-chains.ts';
+import type { WebpackModuleNative, WebpackStatsNative } from '../src/stats.ts';
+
+const identifier = (name: string) => `/app/${name.slice(2)}`;
+const createModule = (name: string, chunks: number[], reasons: [string, string, string?][], fields: Partial<WebpackModuleNative> = {}) => ({
+    id: name, name, identifier: identifier(name), size: 100, chunks,
+    reasons: reasons.map(([moduleName, type, loc = '1:0-20']) => ({ moduleIdentifier: moduleName ? identifier(moduleName) : null, moduleName, type, loc, userRequest: `./${moduleName.split('/').at(-1)}` })),
+    ...fields,
+}) as unknown as WebpackModuleNative;
+
+// `main` is found through its entry reason, `admin` (older stats) through its entry chunk. b and c import each other.
+//   main: index -> a -> target, index -> b -> c -> target (dynamic)
+//   admin: admin -> target
+const stats = {
+    assets: [],
+    chunks: [{ id: 0, names: ['main'], entry: true }, { id: 1, names: ['admin'], entry: true }, { id: 2, names: [], entry: false }],
+    modules: [
+        createModule('./src/index.js', [0], [['', 'entry', 'main']]),
+        createModule('./src/a.js', [0], [['./src/index.js', 'harmony side effect evaluation'], ['./src/index.js', 'harmony import specifier', '3:0-5']]),
+        createModule('./src/b.js', [0], [['./src/index.js', 'harmony import specifier'], ['./src/c.js', 'cjs require']]),
+        createModule('./src/c.js', [0], [['./src/b.js', 'cjs require']]),
+        createModule('./src/admin.js', [1], []),
+        createModule('./src/target.js', [0, 1, 2], [['./src/a.js', 'harmony import specifier'], ['./src/c.js', 'import()'], ['./src/admin.js', 'cjs require'], ['./src/gone.js', 'cjs require']]),
+    ],
+} as unknown as WebpackStatsNative;
+
+const graph = buildImportGraph(stats);
+const target = identifier('./src/target.js');
+const summarize = (result: ReturnType<typeof findImportChains>) => result && {
+    chains: result.chains.map(chain => [chain.entrypoint, chain.steps.map(step => `${step.importKind} ${step.module.name}`)]),
+    truncated: result.truncated,
+};
+
+describe('import chains', () => {
+    test('entrypoints come from entry reasons or un-imported modules of entry chunks', () => {
+        expect([...graph.entrypoints]).toEqual([[identifier('./src/index.js'), 'main'], [identifier('./src/admin.js'), 'admin']]);
+    });
+
+    test('every chain from an entrypoint, shortest first, without following cycles', () => {
+        expect(summarize(findImportChains(graph, target))).toEqual({
+            chains: [
+                ['admin', ['entry ./src/admin.js', 'require ./src/target.js']],
+                ['main', ['entry ./src/index.js', 'esm ./src/a.js', 'esm ./src/target.js']],
+                ['main', ['entry ./src/index.js', 'esm ./src/b.js', 'require ./src/c.js', 'dynamic ./src/target.js']],
+            ],
+            truncated: false,
+        });
+        expect(findImportChains(graph, identifier('./src/missing.js'))).toBeNull();
+    });
+
+    test('steps describe how the previous module imported them', () => {
+        const [, chain] = findImportChains(graph, target)!.chains;
+        expect(chain!.steps[1]).toEqual({
+            module: { id: './src/a.js', identifier: identifier('./src/a.js'), name: './src/a.js' },
+            importKind: 'esm',
+            importTypes: ['harmony side effect evaluation', 'harmony import specifier'],
+            userRequest: './index.js',
+            locations: ['1:0-20', '3:0-5'],
+        });
+    });
+
+    test('the search stops after maxChains chains or maxVisits partial paths', () => {
+        expect(summarize(findImportChains(graph, target, 1))).toEqual({
+            chains: [['admin', ['entry ./src/admin.js', 'require ./src/target.js']]],
+            truncated: true,
+        });
+        // The target and its three importers are visited before the path through a reaches index
+        expect(summarize(findImportChains(graph, target, 50, 4))?.chains).toHaveLength(1);
+        expect(findImportChains(graph, target, 50, 4)?.truncated).toBe(true);
+        expect(findImportChains(graph, target, 3)?.truncated).toBe(false);
+    });
+});
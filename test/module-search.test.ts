@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import path from 'node:path';
+import { buildModuleSearchIndex, searchModules } from '../src/module-search.ts';
+import { getWebpackStatsData } from '../src/stats.ts';
+
+// Searches the esbuild fixture described in adapters.test.ts
+const { statsData } = await getWebpackStatsData(path.join(import.meta.dir, 'esbuild-metafile.json'), () => {});
+const index = buildModuleSearchIndex(statsData, statsData.modules!);
+const search = (query: string) => searchModules([{ index }], query, 0, 50);
+const names = (query: string) => search(query).results.map(result => result.name).sort();
+
+describe('module search', () => {
+    test('an empty query lists every module, largest first', () => {
+        const page = search('');
+        expect(page.total).toBe(6);
+        expect(page.results.map(result => result.size)).toEqual(page.results.map(result => result.size).sort((a, b) => b - a));
+        expect(page.totalSize).toBe(statsData.modules!.reduce((sum, mod) => sum + mod.size, 0));
+    });
+
+    test('results list assets, chunks and issuer', () => {
+        const [util] = search('src/util.js').results;
+        expect(util).toMatchObject({ package: null, issuerName: 'src/index.js', assets: ['dist/chunk-PVGQXVTU.js'] });
+        expect(util?.chunks.map(chunk => chunk.label)).toEqual([expect.stringMatching(/^chunk \d+$/)]);
+        expect(search('pkg:tiny-lib').results[0]?.package).toBe('tiny-lib');
+    });
+
+    test('keys, sizes, regexes and negation combine', () => {
+        expect(names('reason:dynamic')).toEqual(['src/deep-lazy.js', 'src/lazy.js']);
+        expect(names('chunk:lazy')).toEqual(['src/deep-lazy.js', 'src/lazy.js']);
+        expect(names('reason:dynamic !deep')).toEqual(['src/lazy.js']);
+        expect(names('/^src\\/(index|admin)\\.js$/')).toEqual(['src/admin.js', 'src/index.js']);
+        expect(names('asset:chunk- !pkg:tiny-lib')).toEqual(['src/util.js']);
+        expect(names('size>1mb')).toEqual([]);
+        expect(names('issuer:"src/index.js" size>=0b')).toEqual(['src/lazy.js', 'src/util.js']);
+    });
+
+    test('pages share the total', () => {
+        const page = searchModules([{ index }], '', 4, 4);
+        expect(page).toMatchObject({ total: 6, offset: 4, limit: 4 });
+        expect(page.results).toHaveLength(2);
+    });
+
+    test('invalid terms throw', () => {
+        expect(() => search('foo:bar')).toThrow('Unknown search key "foo:"');
+        expect(() => search('size>abc')).toThrow('Invalid size in "size>abc"');
+        expect(() => search('/(/')).toThrow('Invalid regular expression');
+    });
+});
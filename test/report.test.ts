@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import path from 'node:path';
+import { buildReport, formatReport, type ReportOptions } from '../src/report.ts';
+import { getWebpackStatsData } from '../src/stats.ts';
+
+const loadStats = async () => (await getWebpackStatsData(path.join(import.meta.dir, 'webpack-stats.json'), () => {})).statsData;
+const allAssets: ReportOptions = { minSizeKb: 0, excludePatterns: [], topModules: 5 };
+
+describe('report formats', () => {
+    test('json', async () => {
+        const report = buildReport(await loadStats(), 'stats.json', allAssets);
+        expect(JSON.parse(formatReport(report, 'json'))).toEqual({
+            statsFilePath: 'stats.json',
+            totalSize: 3051,
+            totalAssetCount: 2,
+            filters: { minSizeKb: 0, excludePatterns: [] },
+            warningsCount: 0,
+            errorsCount: 0,
+            assets: [
+                {
+                    name: 'main.chunk.js', size: 2865, percentage: 93.9, chunkNames: ['main'], moduleCount: 2,
+                    modules: [{ name: './src/index.js', size: 24, percentage: 53.3 }, { name: './src/foo.js', size: 21, percentage: 46.7 }],
+                },
+                { name: 'index.html', size: 186, percentage: 6.1, chunkNames: [], moduleCount: 0, modules: [] },
+            ],
+            duplicates: [],
+        });
+    });
+
+    test('markdown', async () => {
+        const report = buildReport(await loadStats(), 'stats.json', allAssets);
+        expect(formatReport(report, 'markdown')).toBe(`## Bundle Report
+
+**Total size:** 2.98 KB across 2 of 2 assets
+
+| Asset | Size | % | Chunks |
+| --- | ---: | ---: | --- |
+| \`main.chunk.js\` | 2.8 KB | 93.9% | main |
+| \`index.html\` | 186 Bytes | 6.1% |  |
+
+<details>
+<summary>Top 2 of 2 modules in <code>main.chunk.js</code></summary>
+
+| Module | Size | % of asset |
+| --- | ---: | ---: |
+| \`./src/index.js\` | 24 Bytes | 53.3% |
+| \`./src/foo.js\` | 21 Bytes | 46.7% |
+
+</details>`);
+    });
+
+    test('markdown notes filters and escapes table cells', async () => {
+        const statsData = await loadStats();
+        statsData.modules![0]!.name = './src/a|b.js';
+        const report = buildReport(statsData, 'stats.json', { minSizeKb: 1, excludePatterns: ['/\\.html$/'], topModules: 1 });
+        const lines = formatReport(report, 'markdown').split('\n');
+        expect(lines.slice(0, 4)).toEqual(['## Bundle Report', '', '**Total size:** 2.8 KB across 1 of 2 assets', '_Filters: hiding assets < 1 KB; excluding `/\\.html$/`_']);
+        expect(lines).toContain('<summary>Top 1 of 2 modules in <code>main.chunk.js</code></summary>');
+        expect(lines).toContain('| `./src/a\\|b.js` | 24 Bytes | 53.3% |');
+    });
+
+    test('csv', async () => {
+        const report = buildReport(await loadStats(), 'stats.json', allAssets);
+        expect(formatReport(report, 'csv')).toBe([
+            'kind,asset,name,size,percentage,chunkNames',
+            'asset,main.chunk.js,main.chunk.js,2865,93.9,main',
+            'module,main.chunk.js,./src/index.js,24,53.3,',
+            'module,main.chunk.js,./src/foo.js,21,46.7,',
+            'asset,index.html,index.html,186,6.1,',
+        ].join('\n'));
+    });
+
+    test('csv quotes fields with commas, quotes and line breaks', async () => {
+        const statsData = await loadStats();
+        statsData.modules![0]!.name = './src/a,b.js';
+        statsData.modules![1]!.name = './src/"quoted"\n.js';
+        const report = buildReport(statsData, 'stats.json', { ...allAssets, excludePatterns: ['index.html'] });
+        expect(formatReport(report, 'csv').split('\n').slice(2)).toEqual([
+            'module,main.chunk.js,"./src/a,b.js",24,53.3,',
+            'module,main.chunk.js,"./src/""quoted""',
+            '.js",21,46.7,',
+        ]);
+    });
+});
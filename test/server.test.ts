@@ -0,0 +1,116 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { serializeReloads, startServer } from '../src/server.ts';
+
+const statsDir = await mkdtemp(path.join(os.tmpdir(), 'bundle-server-'));
+const statsFilePath = path.join(statsDir, 'stats.json');
+// main.chunk.js is 2865 B in the fixture
+const fixture = await Bun.file(path.join(import.meta.dir, 'webpack-stats.json')).json();
+const writeStats = (mainSize: number) => Bun.write(statsFilePath, JSON.stringify({
+    ...fixture,
+    assets: fixture.assets.map((asset: { name: string }) => asset.name === 'main.chunk.js' ? { ...asset, size: mainSize } : asset),
+}));
+await writeStats(2865);
+
+const TOKEN = 'secret-token';
+const server = await startServer({
+    statsFilePath,
+    baselineFilePath: null,
+    budgetFilePath: null,
+    outputDir: null,
+    statsFormat: null,
+    port: 0,
+    host: '127.0.0.1',
+    authToken: TOKEN,
+    watch: true,
+    historyFilePath: null,
+});
+afterAll(async () => {
+    await server.stop(true);
+    await rm(statsDir, { recursive: true, force: true });
+});
+
+const get = (pathname: string, headers: Record<string, string> = { Authorization: `Bearer ${TOKEN}` }) => fetch(new URL(pathname, server.url), { headers });
+const getConfig = async () => (await get('/api/config')).json() as Promise<{ generation: number }>;
+const getMainSize = async () => ((await (await get('/api/table')).json()) as { name: string, size: number }[]).find(asset => asset.name === 'main.chunk.js')?.size;
+// Longer than the 300 ms debounce plus the reload itself
+const waitForReload = () => Bun.sleep(800);
+
+describe('access token', () => {
+    test('API requests need the token as a Bearer header or ?token=', async () => {
+        const missing = await get('/api/config', {});
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get('WWW-Authenticate')).toBe('Bearer');
+        expect(await missing.json()).toEqual({ error: 'Missing or invalid access token' });
+
+        expect((await get('/api/config', { Authorization: 'Bearer wrong-token' })).status).toBe(401);
+        expect((await get('/api/config?token=secret-toke', {})).status).toBe(401);
+        expect((await get('/api/config')).status).toBe(200);
+        expect((await get(`/api/config?token=${TOKEN}`, {})).status).toBe(200);
+    });
+
+    test('the page is public', async () => {
+        const page = await get('/', {});
+        expect(page.status).toBe(200);
+        expect(page.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    });
+
+    test('unknown API paths answer with JSON, after the token check', async () => {
+        expect((await get('/api/nope', {})).status).toBe(401);
+        const unknown = await get('/api/nope');
+        expect(unknown.status).toBe(404);
+        expect(await unknown.json()).toEqual({ error: 'Unknown API endpoint "/api/nope"' });
+        expect(await (await get('/nope')).text()).toBe('Not Found');
+    });
+});
+
+describe('watch mode', () => {
+    test('reloads are serialized, with calls during a reload merged into one more', async () => {
+        let runs = 0;
+        let finishFirstRun!: () => void;
+        const reload = serializeReloads(async () => {
+            runs++;
+            if (runs === 1) await new Promise<void>(resolve => finishFirstRun = resolve);
+        });
+        const first = reload();
+        const queued = [reload(), reload(), reload()];
+        expect(runs).toBe(1);
+        finishFirstRun();
+        await Promise.all([first, ...queued]);
+        expect(runs).toBe(2);
+
+        await reload();
+        expect(runs).toBe(3);
+    });
+
+    test('a failed reload keeps the previous stats', async () => {
+        expect(await getConfig()).toMatchObject({ generation: 1 });
+        await Bun.write(statsFilePath, '{ "assets": [');
+        await waitForReload();
+        expect(await getConfig()).toMatchObject({ generation: 1 });
+        expect(await getMainSize()).toBe(2865);
+    });
+
+    test('changes are debounced into one reload and pushed over /api/events', async () => {
+        const events = await get(`/api/events?token=${TOKEN}`, {});
+        const reader = events.body!.getReader();
+        const readEvent = async () => new TextDecoder().decode((await reader.read()).value);
+        expect(await readEvent()).toBe('event: hello\ndata: {"generation":1}\n\n');
+
+        for (const size of [3000, 3100, 3200]) await writeStats(size);
+        await waitForReload();
+        expect(await getConfig()).toMatchObject({ generation: 2 });
+        expect(await getMainSize()).toBe(3200);
+
+        const message = await readEvent();
+        await reader.cancel();
+        const [, event, data] = message.match(/^event: (.+)\ndata: (.+)\n\n$/)!;
+        expect(event).toBe('stats-updated');
+        expect(JSON.parse(data!)).toMatchObject({
+            generation: 2,
+            changes: [{ compilation: expect.any(String), totalDelta: 335, assets: [{ name: 'main.chunk.js', status: 'changed', delta: 335 }] }],
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { attributeModules, attributeSourceMapBytes, decodeMappings, getSourceMapSizes, normalizeSourcePath } from '../src/source-maps.ts';
+import type { WebpackAssetNative, WebpackModuleNative } from '../src/stats.ts';
+
+const outputDir = await mkdtemp(path.join(os.tmpdir(), 'source-maps-'));
+afterAll(() => rm(outputDir, { recursive: true, force: true }));
+
+// `AB\nCDE`: A -> a.js, B -> b.js, C has no mapping, D -> a.js, E has a mapping without a source
+const code = 'AB\nCDE';
+const map = { sources: ['webpack://app/./src/a.js', 'webpack://app/./src/b.js?vue'], mappings: 'AAAA,CCAA;CDAA,C' };
+
+const createModule = (name: string, identifier: string, modules?: WebpackModuleNative[]) => ({ name, identifier, size: 100, modules }) as WebpackModuleNative;
+
+describe('source map attribution', () => {
+    test('decodes mappings', () => {
+        expect(decodeMappings(map.mappings)).toEqual([
+            [{ column: 0, source: 0 }, { column: 1, source: 1 }],
+            [{ column: 1, source: 0 }, { column: 2, source: -1 }],
+        ]);
+        expect(decodeMappings('gBAAgB')).toEqual([[{ column: 16, source: 0 }]]); // Multi-character values
+    });
+
+    test('normalizes source paths', () => {
+        expect(normalizeSourcePath('webpack://app/./src/a.js?vue&type=script')).toBe('src/a.js');
+        expect(normalizeSourcePath('webpack:///./node_modules/css-loader/index.js!./src/app.css')).toBe('src/app.css');
+        expect(normalizeSourcePath('../src/util.js')).toBe('src/util.js');
+        expect(normalizeSourcePath('/src/util.js')).toBe('src/util.js');
+    });
+
+    test('every byte goes to a source or to unmapped', () => {
+        const sizes = attributeSourceMapBytes(code, map);
+        expect(Object.fromEntries(sizes.sources)).toEqual({ 'src/a.js': 2, 'src/b.js': 1 });
+        expect(sizes.unmappedSize).toBe(3); // C, E and the line break
+        expect(sizes.totalSize).toBe(6);
+    });
+
+    test('counts UTF-8 bytes', () => {
+        const sizes = attributeSourceMapBytes('é = "ü"', { sources: ['a.js'], mappings: 'CAAA' });
+        expect(sizes.sources.get('a.js')).toBe(7); // ` = "ü"`
+        expect(sizes.unmappedSize).toBe(2); // é
+    });
+
+    test('matches sources to modules once', () => {
+        const sizes = attributeSourceMapBytes(code, map);
+        const a = createModule('./src/a.js', '/home/ci/app/src/a.js');
+        const duplicate = createModule('./src/a.js?copy', '/home/ci/app/src/a.js?copy');
+        const concatenated = createModule('./src/index.js + 1 modules', 'concatenated|index', [createModule('./src/b.js', 'loader!/home/ci/app/src/b.js')]);
+        const attribution = attributeModules(sizes, [a, duplicate, concatenated]);
+        expect(attribution.moduleSizes.get(a.identifier)).toBe(2);
+        expect(attribution.moduleSizes.get(duplicate.identifier)).toBe(0);
+        expect(attribution.moduleSizes.get(concatenated.identifier)).toBe(1);
+        expect(attribution).toMatchObject({ totalSize: 6, mappedSize: 3, unmappedSize: 3 });
+    });
+
+    test('matches absolute sources by path suffix', () => {
+        const sizes = attributeSourceMapBytes(code, { ...map, sources: ['/home/ci/app/src/a.js', 'b.js'] });
+        expect(attributeModules(sizes, [createModule('src/a.js', 'src/a.js')]).mappedSize).toBe(2);
+    });
+});
+
+describe('source map loading', () => {
+    const asset = (name: string) => ({ name, size: 0, chunks: [] }) as unknown as WebpackAssetNative;
+
+    test('reads linked, inline and adjacent maps', async () => {
+        await Bun.write(path.join(outputDir, 'linked.js'), `${code}\n//# sourceMappingURL=maps/linked.js.map`);
+        await Bun.write(path.join(outputDir, 'maps', 'linked.js.map'), JSON.stringify(map));
+        const inlineCode = `${code}\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${Buffer.from(JSON.stringify(map)).toString('base64')}`;
+        await Bun.write(path.join(outputDir, 'inline.js'), inlineCode);
+        await Bun.write(path.join(outputDir, 'adjacent.css'), code);
+        await Bun.write(path.join(outputDir, 'adjacent.css.map'), JSON.stringify(map));
+        await Bun.write(path.join(outputDir, 'unmapped.js'), code);
+        await Bun.write(path.join(outputDir, 'broken.js'), code);
+        await Bun.write(path.join(outputDir, 'broken.js.map'), '{"version":3}');
+
+        const messages: string[] = [];
+        const sizes = await getSourceMapSizes(outputDir, ['linked.js', 'inline.js', 'adjacent.css', 'unmapped.js', 'broken.js', 'missing.js', 'linked.js.map'].map(asset), message => messages.push(message));
+        expect([...sizes.keys()]).toEqual(['linked.js', 'inline.js', 'adjacent.css']);
+        expect(sizes.get('linked.js')?.sources.get('src/a.js')).toBe(2);
+        expect(sizes.get('inline.js')).toMatchObject({ totalSize: inlineCode.length, unmappedSize: inlineCode.length - 3 });
+        expect(messages[0]).toContain('Could not read the source map of broken.js');
+    });
+});
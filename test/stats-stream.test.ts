@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import { StatsStreamParser } from '../src/stats-stream.ts';
+import type { WebpackStatsNative } from '../src/stats.ts';
+
+// Feeds the document to the parser in chunks of `chunkSize` bytes, so tokens end up split at every position
+function parseInChunks(json: string, chunkSize: number) {
+    const bytes = new TextEncoder().encode(json);
+    const parser = new StatsStreamParser();
+    for (let start = 0; start < bytes.length; start += chunkSize) {
+        parser.write(bytes.subarray(start, start + chunkSize));
+    }
+    return { stats: parser.end() as WebpackStatsNative, moduleIndexes: parser.moduleIndexes };
+}
+
+const CHUNK_SIZES = [1, 2, 3, 5, 7, 64];
+
+describe('streaming stats parser', () => {
+    test('tokens, escapes and multibyte characters split across chunks', () => {
+        const stats = {
+            name: 'café 漢字 📦',
+            hash: 'quote " backslash \\\\ newline \n tab \t unicode é \\" end',
+            time: -12.5e3,
+            builtAt: 1700000000000,
+            errors: [],
+            warnings: [{ message: 'escaped \\\\\\"', details: null, flag: true }],
+            assets: [{ name: 'dist/über-漢.js', size: 1234, emitted: false, chunks: [0] }],
+        };
+        const json = JSON.stringify(stats, null, 1);
+        for (const chunkSize of CHUNK_SIZES) {
+            expect(parseInChunks(json, chunkSize).stats).toEqual(stats as unknown as WebpackStatsNative);
+        }
+    });
+
+    test('skips fields that are not allowlisted, including nested ones', () => {
+        const json = JSON.stringify({
+            hash: 'abc',
+            logging: { webpack: { entries: [{ message: 'dropped' }] } },
+            assets: [{ name: 'main.js', size: 10, info: { sourceFilename: 'x' }, related: [{ name: 'main.js.map' }] }],
+            modules: [{
+                identifier: '/src/a.js', name: './src/a.js', size: 10, chunks: [0],
+                source: 'const s = "}]\\\\"; // not JSON structure',
+                profile: { factory: 1, building: [2, { nested: '}' }] },
+                reasons: [{ moduleName: './src/index.js', type: 'harmony import', loc: { start: 1 } }],
+            }],
+        });
+        for (const chunkSize of CHUNK_SIZES) {
+            const { stats } = parseInChunks(json, chunkSize);
+            expect(stats).toEqual({
+                hash: 'abc',
+                assets: [{ name: 'main.js', size: 10 }],
+                modules: [{
+                    identifier: '/src/a.js', name: './src/a.js', size: 10, chunks: [0],
+                    // Values below kept fields are kept as-is
+                    reasons: [{ moduleName: './src/index.js', type: 'harmony import', loc: { start: 1 } }],
+                }],
+            } as unknown as WebpackStatsNative);
+        }
+    });
+
+    test('chunk modules and top-level modules are stored once', () => {
+        const mod = { identifier: '/src/a.js', name: './src/a.js', id: 1, size: 10, chunks: [0] };
+        const json = JSON.stringify({
+            chunks: [{ id: 0, names: ['main'], modules: [mod] }],
+            modules: [mod, { identifier: '/src/b.js', name: './src/b.js', id: 2, size: 5, issuer: '/src/a.js', chunks: [0] }],
+        });
+        const { stats, moduleIndexes } = parseInChunks(json, 7);
+        expect(stats.modules).toHaveLength(2);
+        expect(stats.chunks![0]!.modules![0]).toBe(stats.modules![0]!);
+
+        const index = moduleIndexes.get(stats)!;
+        expect(index.byIdentifier.get('/src/a.js')).toBe(stats.modules![0]!);
+        expect(index.byId.get('2')?.name).toBe('./src/b.js');
+        expect(index.byIssuer.get('/src/a.js')?.map(m => m.name)).toEqual(['./src/b.js']);
+    });
+
+    test('modules only listed in chunks fill the top-level modules array', () => {
+        const json = JSON.stringify({ chunks: [{ id: 0, modules: [{ identifier: '/src/a.js', name: './src/a.js', size: 10 }] }] });
+        const { stats } = parseInChunks(json, 3);
+        expect(stats.modules?.map(m => m.name)).toEqual(['./src/a.js']);
+    });
+
+    test('each compilation of multi-compiler stats gets its own module index', () => {
+        const json = JSON.stringify({ children: [
+            { name: 'client', modules: [{ identifier: '/src/a.js', name: './src/a.js', size: 10 }] },
+            { name: 'server', modules: [{ identifier: '/src/a.js', name: './src/a.js', size: 20 }] },
+        ] });
+        const { stats, moduleIndexes } = parseInChunks(json, 5);
+        const [client, server] = stats.children!;
+        expect(moduleIndexes.get(client!)?.byIdentifier.get('/src/a.js')?.size).toBe(10);
+        expect(moduleIndexes.get(server!)?.byIdentifier.get('/src/a.js')?.size).toBe(20);
+    });
+
+    test('truncated input reports how far it got', () => {
+        expect(() => parseInChunks('{"assets": [{"name": "main.js"', 4)).toThrow('Unexpected end of JSON input after 30 bytes');
+        expect(() => parseInChunks('{"hash": "abc', 4)).toThrow('Unexpected end of JSON input after 13 bytes');
+        expect(() => parseInChunks('', 4)).toThrow('Unexpected end of JSON input after 0 bytes');
+    });
+
+    test('malformed input reports the byte position', () => {
+        // The position counts bytes of earlier chunks and multibyte characters
+        expect(() => parseInChunks('{"name": "é",, "hash": "x"}', 4)).toThrow('Unexpected "," at byte 14 of JSON input');
+        expect(() => parseInChunks('{"assets": [1 2]}', 3)).toThrow('Unexpected value "2" near byte 15 of JSON input');
+        expect(() => parseInChunks('{"time": nope}', 5)).toThrow('Invalid literal "nope" near byte 13 of JSON input');
+        expect(() => parseInChunks('{"assets": [}', 64)).toThrow('Unexpected "}" at byte 12 of JSON input');
+    });
+});
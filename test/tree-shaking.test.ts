@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import path from 'node:path';
+import { getWebpackStatsData, type WebpackModuleNative, type WebpackStatsNative } from '../src/stats.ts';
+import { analyzeTreeShaking } from '../src/tree-shaking.ts';
+
+const loadFixture = async (fileName: string) => (await getWebpackStatsData(path.join(import.meta.dir, fileName), () => {})).statsData;
+
+const createModule = (fields: Partial<WebpackModuleNative>) => ({ identifier: fields.name, size: 100, chunks: [1], optimizationBailout: [], ...fields }) as WebpackModuleNative;
+const createStats = (modules: WebpackModuleNative[]) => ({ assets: [], chunks: [{ id: 1, names: ['main'] }], modules }) as unknown as WebpackStatsNative;
+
+describe('tree-shaking analysis', () => {
+    test('reads unused exports and bailouts from Rspack stats', async () => {
+        const report = analyzeTreeShaking(await loadFixture('rspack-stats.json'));
+        expect(report.hasExportInfo).toBe(true);
+        expect(report.unusedExports).toEqual([expect.objectContaining({
+            name: './node_modules/tiny-lib/index.js',
+            issuerName: './src/util.js',
+            usedExports: ['pad'],
+            unusedExports: ['unused'],
+            noExportsUsed: false,
+            estimatedSavings: 69, // Half of 137 bytes
+        })]);
+        expect(report.bailouts.map(mod => mod.name)).toEqual(['./src/index.js', './src/lazy.js', './src/util.js', './src/admin.js']);
+        expect(report.bailouts[0]?.reasons[0]).toBe('Module is an entry point');
+    });
+
+    test('modules without used exports count in full', async () => {
+        const report = analyzeTreeShaking(await loadFixture('webpack-stats.json'));
+        expect(report.unusedExports).toEqual([expect.objectContaining({ name: './src/foo.js', unusedExports: ['default'], noExportsUsed: true, estimatedSavings: 21 })]);
+        expect(report.estimatedSavings).toBe(21);
+    });
+
+    test('inner modules are checked, orphans and side effects are reported', () => {
+        const report = analyzeTreeShaking(createStats([
+            createModule({ name: './src/index.js + 1 modules', usedExports: true, modules: [
+                createModule({ name: './src/barrel.js', usedExports: ['a'], providedExports: ['a', 'b', 'c', 'd'] }),
+            ] }),
+            createModule({ name: './src/polyfill.js', usedExports: false, providedExports: null, optimizationBailout: ['Statement (ExpressionStatement) with side effects in source code at 1:0-20'] }),
+            createModule({ name: './src/dropped.js', usedExports: false, providedExports: ['x'], chunks: [], orphan: true }),
+        ]));
+        expect(report.unusedExports.map(mod => [mod.name, mod.estimatedSavings])).toEqual([['./src/polyfill.js', 100], ['./src/barrel.js', 75]]);
+        expect(report.unusedExports[0]?.sideEffects).toEqual(['Statement (ExpressionStatement) with side effects in source code at 1:0-20']);
+        expect(report.unusedExports[1]?.chunks).toEqual(['main']);
+    });
+
+    test('adapter stats have no export information', async () => {
+        expect(analyzeTreeShaking(await loadFixture('esbuild-metafile.json'))).toEqual({ hasExportInfo: false, unusedExports: [], bailouts: [], estimatedSavings: 0 });
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import path from 'node:path';
+import { buildTreemap, getTreemapBreadcrumb, sliceTreemap, type TreemapNode, type TreemapNodeJson } from '../src/treemap.ts';
+import { getWebpackStatsData, type WebpackStatsNative } from '../src/stats.ts';
+
+// main.chunk.js (2865 B) holds chunk `main` with ./src/index.js (24 B) and ./src/foo.js (21 B); index.html (186 B) has no chunks
+const { statsData } = await getWebpackStatsData(path.join(import.meta.dir, 'webpack-stats.json'), () => {});
+
+// The same stats with the module details left out of the chunks, as with `chunkModules: false`
+const withoutChunkModules = { ...statsData, chunks: statsData.chunks!.map(chunk => ({ ...chunk, modules: undefined })) } as WebpackStatsNative;
+
+// Nested [name, kind, size] tuples, children in insertion order
+type Outline = [string, string, number, Outline[]?];
+const outline = (node: TreemapNode): Outline => node.children.length > 0
+    ? [node.name, node.kind, node.size, node.children.map(outline)]
+    : [node.name, node.kind, node.size];
+
+const FIXTURE_OUTLINE: Outline[] = [
+    ['main.chunk.js', 'asset', 2865, [
+        ['main', 'chunk', 45, [
+            ['src', 'directory', 45, [['index.js', 'module', 24], ['foo.js', 'module', 21]]],
+        ]],
+    ]],
+    ['index.html', 'asset', 186],
+];
+
+describe('treemap', () => {
+    test('assets hold their chunks, which hold module directories', () => {
+        const { root, nodesById } = buildTreemap([{ name: 'main', statsData, assets: statsData.assets }]);
+        expect(outline(root)).toEqual(['All assets', 'root', 3051, FIXTURE_OUTLINE]);
+        expect(nodesById.size).toBe(7);
+        for (const [id, node] of nodesById) expect(node.id).toBe(id);
+    });
+
+    test('chunks without module details fall back to the top-level modules', () => {
+        const { root } = buildTreemap([{ name: 'main', statsData: withoutChunkModules, assets: withoutChunkModules.assets }]);
+        expect(outline(root)).toEqual(['All assets', 'root', 3051, FIXTURE_OUTLINE]);
+    });
+
+    test('each compilation gets its own level, directories and chunk modules', () => {
+        // Both compilations have a chunk 0, so modules must be grouped per compilation
+        const { root } = buildTreemap([
+            { name: 'client', statsData, assets: statsData.assets },
+            { name: 'server', statsData: withoutChunkModules, assets: withoutChunkModules.assets },
+        ]);
+        expect(outline(root)).toEqual(['All assets', 'root', 6102, [
+            ['client', 'compilation', 3051, FIXTURE_OUTLINE],
+            ['server', 'compilation', 3051, FIXTURE_OUTLINE],
+        ]]);
+    });
+
+    test('slices keep the largest children and merge the rest into "other"', () => {
+        const { root } = buildTreemap([{ name: 'main', statsData, assets: statsData.assets }]);
+        const names = (json: TreemapNodeJson): unknown => json.children ? [json.name, json.childCount, json.children.map(names)] : [json.name, json.childCount];
+
+        expect(names(sliceTreemap(root, 1, 1))).toEqual(['All assets', 2, [['main.chunk.js', 1], ['1 smaller items', 0]]]);
+        expect(sliceTreemap(root, 1, 1).children![1]).toEqual({ id: null, name: '1 smaller items', kind: 'other', size: 186, mappedSize: null, childCount: 0 });
+
+        const src = root.children[0]!.children[0]!.children[0]!;
+        expect(names(sliceTreemap(src, 5, 10))).toEqual(['src', 2, [['index.js', 0], ['foo.js', 0]]]);
+        expect(names(sliceTreemap(src, 0, 10))).toEqual(['src', 2]);
+    });
+
+    test('breadcrumbs run from the root to the node', () => {
+        const { root } = buildTreemap([{ name: 'main', statsData, assets: statsData.assets }]);
+        const foo = root.children[0]!.children[0]!.children[0]!.children[1]!;
+        expect(getTreemapBreadcrumb(foo).map(({ name }) => name)).toEqual(['All assets', 'main.chunk.js', 'main', 'src', 'foo.js']);
+        expect(getTreemapBreadcrumb(root)).toEqual([{ id: root.id, name: 'All assets' }]);
+    });
+});